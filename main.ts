@@ -8,19 +8,47 @@ import {
     MenuItem,
     Notice,
     WorkspaceLeaf,
-    MarkdownView
+    MarkdownView,
+    MarkdownFileInfo,
+    Editor
 } from 'obsidian';
 
 import { HandwriteSettings, DEFAULT_SETTINGS } from './src/config/settings';
 import { HandwriteSettingTab } from './src/ui/SettingsTab';
 import { ProcessingModal } from './src/ui/ProcessingModal';
-import { FileProcessor } from './src/processor/fileProcessor';
+import { FileProcessor, ProcessingOptions } from './src/processor/fileProcessor';
+import { ProcessingLedger } from './src/processor/ledger';
+import { UsageLog } from './src/processor/usageLog';
+import { PreprocessLog } from './src/processor/imagePreprocess';
+import { Job, JobQueue } from './src/processor/jobQueue';
+import { QueueView, VIEW_TYPE_QUEUE } from './src/ui/QueueView';
+import { exportFailureReport } from './src/processor/failureReport';
+import { InboxWatcher } from './src/watcher/inboxWatcher';
+import { getProviderConfigError } from './src/ocr/factory';
+import { ProcessingProfile } from './src/config/profiles';
+import { ProfileSuggestModal } from './src/ui/ProfileSuggestModal';
+import { findSourceFile, findTranscription } from './src/processor/sourceLink';
+import { HandwriteApi } from './src/api/handwriteApi';
+import { findEmbeddedImages, insertTranscriptions } from './src/processor/embeddedImages';
+import { isSupportedExtension } from './src/formats/registry';
 
 export default class HandwritePlugin extends Plugin {
     settings: HandwriteSettings;
+    ledger: ProcessingLedger;
+    usageLog: UsageLog;
+    preprocessLog: PreprocessLog;
+    jobQueue: JobQueue;
+    // Public API for other plugins and scripts
+    api: HandwriteApi;
+    private inboxWatcher: InboxWatcher;
 
     async onload() {
         await this.loadSettings();
+        this.api = new HandwriteApi(this);
+
+        // Watch the inbox folder for new scans
+        this.inboxWatcher = new InboxWatcher(this);
+        this.inboxWatcher.start();
 
         // Add ribbon icon
         const ribbonIconEl = this.addRibbonIcon('image-file', 'Process handwritten notes', () => {
@@ -53,6 +81,122 @@ export default class HandwritePlugin extends Plugin {
             }
         });
 
+        // Add command to process with a chosen profile
+        this.addCommand({
+            id: 'process-with-profile',
+            name: 'Process with profile…',
+            callback: () => {
+                this.chooseProfile((profile) => {
+                    const file = this.app.workspace.getActiveFile();
+                    if (file && this.isSupportedFile(file)) {
+                        this.processFiles([file], { profileId: profile.id });
+                    } else {
+                        this.showFileSelector(profile.id);
+                    }
+                });
+            }
+        });
+
+        // Add command to refresh a generated note from its source
+        this.addCommand({
+            id: 're-transcribe-note',
+            name: 'Re-transcribe this note',
+            checkCallback: (checking: boolean) => {
+                const note = this.app.workspace.getActiveFile();
+                if (!note || note.extension !== 'md') return false;
+
+                const source = findSourceFile(this.app, this.ledger, note);
+                if (!source) return false;
+
+                if (!checking) {
+                    this.retranscribeNote(note, source);
+                }
+                return true;
+            }
+        });
+
+        // Add command to transcribe images embedded in the current note
+        this.addCommand({
+            id: 'transcribe-embedded-images',
+            name: 'Transcribe embedded images',
+            editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+                if (!view.file) return;
+
+                // Only look inside the selection when there is one
+                const content = editor.getValue();
+                const hasSelection = editor.somethingSelected();
+                const from = hasSelection ? editor.posToOffset(editor.getCursor('from')) : 0;
+                const to = hasSelection ? editor.posToOffset(editor.getCursor('to')) : content.length;
+
+                this.transcribeEmbeddedImages(view.file, content, from, to);
+            }
+        });
+
+        // Add commands to jump between a source file and its transcription
+        this.addCommand({
+            id: 'go-to-transcription',
+            name: 'Go to transcription',
+            checkCallback: (checking: boolean) => {
+                const source = this.app.workspace.getActiveFile();
+                if (!source || !this.isSupportedFile(source)) return false;
+
+                const note = findTranscription(this.app, this.ledger, source);
+                if (!note) return false;
+
+                if (!checking) {
+                    this.openSideBySide(note);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'show-source',
+            name: 'Show source',
+            checkCallback: (checking: boolean) => {
+                const note = this.app.workspace.getActiveFile();
+                if (!note || note.extension !== 'md') return false;
+
+                const source = findSourceFile(this.app, this.ledger, note);
+                if (!source) return false;
+
+                if (!checking) {
+                    this.openSideBySide(source);
+                }
+                return true;
+            }
+        });
+
+        // Keep the ledger and queue pointing at files the user renames or moves
+        this.registerEvent(
+            this.app.vault.on('rename', async (file, oldPath) => {
+                try {
+                    await this.ledger.renamePath(oldPath, file.path);
+                    await this.jobQueue.renamePath(oldPath, file.path);
+                } catch (error) {
+                    console.error('Failed to save renamed paths:', error);
+                }
+            })
+        );
+
+        // Processing queue view
+        this.registerView(VIEW_TYPE_QUEUE, (leaf) => new QueueView(leaf, this));
+
+        this.addCommand({
+            id: 'open-processing-queue',
+            name: 'Open processing queue',
+            callback: () => this.openQueueView()
+        });
+
+        this.addCommand({
+            id: 'export-failure-report',
+            name: 'Export failure report',
+            callback: () => this.exportFailureReport()
+        });
+
+        // Offer to resume work left unfinished when Obsidian was closed
+        this.app.workspace.onLayoutReady(() => this.offerToResume());
+
         // Add settings tab
         this.addSettingTab(new HandwriteSettingTab(this.app, this));
 
@@ -68,6 +212,40 @@ export default class HandwritePlugin extends Plugin {
                                 this.processFiles([file]);
                             });
                     });
+
+                    if (this.ledger.hasPath(file.path)) {
+                        menu.addItem((item: MenuItem) => {
+                            item
+                                .setTitle('Force reprocess with Handwrite OCR')
+                                .setIcon('refresh-cw')
+                                .onClick(() => {
+                                    this.processFiles([file], { force: true });
+                                });
+                        });
+                    }
+
+                    const transcription = findTranscription(this.app, this.ledger, file);
+                    if (transcription) {
+                        menu.addItem((item: MenuItem) => {
+                            item
+                                .setTitle('Go to transcription')
+                                .setIcon('file-text')
+                                .onClick(() => {
+                                    this.openSideBySide(transcription);
+                                });
+                        });
+                    }
+
+                    if (this.settings.profiles.length > 0) {
+                        menu.addItem((item: MenuItem) => {
+                            item
+                                .setTitle('Process with Handwrite OCR profile…')
+                                .setIcon('list')
+                                .onClick(() => {
+                                    this.chooseProfile(profile => this.processFiles([file], { profileId: profile.id }));
+                                });
+                        });
+                    }
                 }
             })
         );
@@ -86,6 +264,29 @@ export default class HandwritePlugin extends Plugin {
                                     this.processFiles(supportedFiles);
                                 });
                         });
+
+                        const previouslyProcessed = supportedFiles.filter(f => this.ledger.hasPath(f.path));
+                        if (previouslyProcessed.length > 0) {
+                            menu.addItem((item: MenuItem) => {
+                                item
+                                    .setTitle(`Force reprocess ${supportedFiles.length} files with Handwrite OCR`)
+                                    .setIcon('refresh-cw')
+                                    .onClick(() => {
+                                        this.processFiles(supportedFiles, { force: true });
+                                    });
+                            });
+                        }
+
+                        if (this.settings.profiles.length > 0) {
+                            menu.addItem((item: MenuItem) => {
+                                item
+                                    .setTitle(`Process ${supportedFiles.length} files with Handwrite OCR profile…`)
+                                    .setIcon('list')
+                                    .onClick(() => {
+                                        this.chooseProfile(profile => this.processFiles(supportedFiles, { profileId: profile.id }));
+                                    });
+                            });
+                        }
                     }
                 }
             })
@@ -96,25 +297,38 @@ export default class HandwritePlugin extends Plugin {
     }
 
     onunload() {
+        this.inboxWatcher?.stop();
         console.log('Handwrite OCR plugin unloaded');
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        // The processing ledger, usage log, job queue and preprocessing totals live alongside the settings in data.json
+        const { ledger, usage, queue, preprocessStats, ...settings } = (await this.loadData()) || {};
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+        this.ledger = new ProcessingLedger(ledger, () => this.saveSettings());
+        this.usageLog = new UsageLog(usage, () => this.saveSettings());
+        this.jobQueue = new JobQueue(queue, () => this.saveSettings());
+        this.preprocessLog = new PreprocessLog(preprocessStats, () => this.saveSettings());
     }
 
     async saveSettings() {
-        await this.saveData(this.settings);
+        await this.saveData({
+            ...this.settings,
+            ledger: this.ledger.toJSON(),
+            usage: this.usageLog.toJSON(),
+            queue: this.jobQueue.toJSON(),
+            preprocessStats: this.preprocessLog.toJSON()
+        });
     }
 
     private isSupportedFile(file: TFile): boolean {
-        const supportedExtensions = ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'gif'];
-        return supportedExtensions.includes(file.extension.toLowerCase());
+        return isSupportedExtension(file.extension);
     }
 
-    private async processFiles(files: TFile[]) {
-        if (!this.settings.geminiApiKey) {
-            new Notice('Please set your Gemini API key in the plugin settings');
+    private async processFiles(files: TFile[], options: ProcessingOptions = {}) {
+        const configError = getProviderConfigError(this.settings);
+        if (configError) {
+            new Notice(configError);
             // Open settings
             (this.app as any).setting.open();
             (this.app as any).setting.openTabById('handwrite-ocr');
@@ -126,32 +340,198 @@ export default class HandwritePlugin extends Plugin {
             return;
         }
 
-        const modal = new ProcessingModal(this.app, files, this.settings);
+        const modal = new ProcessingModal(this.app, files, this.settings, this.ledger, this.usageLog, this.preprocessLog, {
+            ...options,
+            jobQueue: this.jobQueue
+        });
         modal.open();
     }
 
-    private showFileSelector() {
-        const modal = new FileSelectorModal(this.app, (files: TFile[]) => {
+    private async retranscribeNote(note: TFile, source: TFile) {
+        const configError = getProviderConfigError(this.settings);
+        if (configError) {
+            new Notice(configError);
+            return;
+        }
+
+        const notice = new Notice(`Re-transcribing ${source.name}...`, 0);
+        const processor = new FileProcessor(this.app, this.settings, this.ledger, this.usageLog, this.preprocessLog);
+        const result = await processor.retranscribeNote(note, source, (progress) => notice.setMessage(progress));
+        notice.hide();
+
+        if (result.success) {
+            new Notice(`Re-transcribed ${note.basename} from ${source.name}`);
+        } else {
+            new Notice(`Failed to re-transcribe ${note.basename}: ${result.error}`);
+        }
+    }
+
+    private async transcribeEmbeddedImages(note: TFile, content: string, from: number, to: number) {
+        const embeds = findEmbeddedImages(this.app, note, content, this.settings.embedOutputStyle, from, to);
+        if (embeds.length === 0) {
+            new Notice('No embedded images to transcribe');
+            return;
+        }
+
+        const configError = getProviderConfigError(this.settings);
+        if (configError) {
+            new Notice(configError);
+            return;
+        }
+
+        const notice = new Notice(`Transcribing ${embeds.length} embedded image${embeds.length > 1 ? 's' : ''}...`, 0);
+        const processor = new FileProcessor(this.app, this.settings, this.ledger, this.usageLog, this.preprocessLog);
+        let completed = 0;
+        const failures: string[] = [];
+
+        const transcriptions = await Promise.all(embeds.map(async (embed) => {
+            try {
+                const result = await processor.transcribeFile(embed.file);
+                return result.content.trim() ? { embed, text: result.content } : null;
+            } catch (error) {
+                failures.push(`${embed.file.name}: ${error instanceof Error ? error.message : error}`);
+                return null;
+            } finally {
+                notice.setMessage(`Transcribed ${++completed} of ${embeds.length} embedded images...`);
+            }
+        }));
+
+        const successful = transcriptions.filter((transcription): transcription is NonNullable<typeof transcription> => transcription !== null);
+        if (successful.length > 0) {
+            await this.app.vault.process(note, (current) =>
+                insertTranscriptions(current, content, successful, this.settings.embedOutputStyle)
+            );
+        }
+        notice.hide();
+
+        if (failures.length > 0) {
+            new Notice(`Transcribed ${successful.length} of ${embeds.length} images. Failed:\n${failures.join('\n')}`);
+        } else {
+            new Notice(`Transcribed ${successful.length} embedded image${successful.length > 1 ? 's' : ''}`);
+        }
+    }
+
+    /**
+     * Processes queued jobs again with the options they were queued with. Jobs
+     * whose source file no longer exists are marked as failed.
+     */
+    async resumeJobs(jobs: Job[]) {
+        const files: TFile[] = [];
+        for (const job of jobs) {
+            const file = this.app.vault.getAbstractFileByPath(job.sourcePath);
+            if (file instanceof TFile) {
+                files.push(file);
+            } else {
+                await this.jobQueue.update(job.sourcePath, { state: 'failed', error: 'Source file not found' });
+            }
+        }
+        await this.processFiles(files, { resume: true });
+    }
+
+    private offerToResume() {
+        const unfinished = this.jobQueue.withState('pending', 'running');
+        if (unfinished.length === 0) return;
+
+        const fragment = createFragment(el => {
+            el.createDiv({ text: `Handwrite OCR: ${unfinished.length} file${unfinished.length > 1 ? 's' : ''} from an unfinished batch ${unfinished.length > 1 ? 'are' : 'is'} waiting.` });
+            const buttons = el.createDiv('handwrite-resume-notice__buttons');
+            buttons.createEl('button', { text: 'Resume' }).addEventListener('click', () => {
+                notice.hide();
+                this.resumeJobs(this.jobQueue.withState('pending', 'running'));
+            });
+            buttons.createEl('button', { text: 'Show queue' }).addEventListener('click', () => {
+                notice.hide();
+                this.openQueueView();
+            });
+            buttons.createEl('button', { text: 'Discard' }).addEventListener('click', async () => {
+                notice.hide();
+                try {
+                    await this.jobQueue.remove(this.jobQueue.withState('pending', 'running').map(job => job.sourcePath));
+                } catch (error) {
+                    new Notice(`Failed to discard queued files: ${error instanceof Error ? error.message : error}`);
+                }
+            });
+        });
+        const notice = new Notice(fragment, 0);
+    }
+
+    /**
+     * Saves the files that failed in the processing queue as a note for triage.
+     */
+    private async exportFailureReport() {
+        const failed = this.jobQueue.withState('failed');
+        if (failed.length === 0) {
+            new Notice('No failed files in the processing queue');
+            return;
+        }
+
+        const note = await exportFailureReport(this.app, failed.map(job => ({
+            sourcePath: job.sourcePath,
+            category: job.errorCategory ?? 'other',
+            error: job.error ?? 'Unknown error'
+        })));
+        await this.app.workspace.getLeaf(false).openFile(note);
+    }
+
+    private async openQueueView() {
+        const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_QUEUE)[0];
+        if (existing) {
+            this.app.workspace.revealLeaf(existing);
+            return;
+        }
+
+        const leaf = this.app.workspace.getRightLeaf(false);
+        if (!leaf) return;
+        await leaf.setViewState({ type: VIEW_TYPE_QUEUE, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Opens a file in a split next to the active one.
+     */
+    private openSideBySide(file: TFile) {
+        this.app.workspace.getLeaf('split', 'vertical').openFile(file);
+    }
+
+    private showFileSelector(profileId = '') {
+        const processor = new FileProcessor(this.app, this.settings, this.ledger, this.usageLog, this.preprocessLog);
+        const modal = new FileSelectorModal(this.app, processor, this.settings.profiles, profileId, (files: TFile[], selectedProfileId: string) => {
             if (files.length > 0) {
-                this.processFiles(files);
+                this.processFiles(files, { profileId: selectedProfileId || undefined });
             }
         });
         modal.open();
     }
 
+    private chooseProfile(onSelect: (profile: ProcessingProfile) => void) {
+        if (this.settings.profiles.length === 0) {
+            new Notice('No processing profiles yet. Add one in the Handwrite OCR settings.');
+            return;
+        }
+        new ProfileSuggestModal(this.app, this.settings.profiles, onSelect).open();
+    }
+
 }
 
 // File Selector Modal
 import { Modal, Setting } from 'obsidian';
 import { FolderSuggestModal } from './src/ui/FolderSuggestModal';
+import { PlannedFile } from './src/processor/fileProcessor';
 
 class FileSelectorModal extends Modal {
-    private onSelect: (files: TFile[]) => void;
+    private onSelect: (files: TFile[], profileId: string) => void;
+    private processor: FileProcessor;
     private selectedFiles: Set<TFile> = new Set();
     private folderPath: string = '';
+    private profiles: ProcessingProfile[];
+    // Empty means each file uses the profile matching its folder
+    private profileId: string;
 
-    constructor(app: App, onSelect: (files: TFile[]) => void) {
+    constructor(app: App, processor: FileProcessor, profiles: ProcessingProfile[], profileId: string, onSelect: (files: TFile[], profileId: string) => void) {
         super(app);
+        this.processor = processor;
+        this.profiles = profiles;
+        this.profileId = profileId;
         this.onSelect = onSelect;
     }
 
@@ -183,16 +563,37 @@ class FileSelectorModal extends Modal {
                     }).open();
                 }));
 
+        if (this.profiles.length > 0) {
+            new Setting(contentEl)
+                .setName('Profile')
+                .setDesc('Processing profile to use for the selected files')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Automatic (by source folder)');
+                    this.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+                    dropdown
+                        .setValue(this.profileId)
+                        .onChange(value => {
+                            this.profileId = value;
+                            this.clearDryRun();
+                        });
+                });
+        }
+
         const fileListContainer = contentEl.createDiv('handwrite-modal__file-list');
         this.updateFileList();
+        contentEl.createDiv('handwrite-modal__dry-run');
 
         new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Dry Run')
+                .setTooltip('Show where notes would be written and files moved, without calling the API')
+                .onClick(() => this.showDryRun()))
             .addButton(btn => btn
                 .setButtonText('Process Selected')
                 .setCta()
                 .onClick(() => {
                     this.close();
-                    this.onSelect(Array.from(this.selectedFiles));
+                    this.onSelect(Array.from(this.selectedFiles), this.profileId);
                 }))
             .addButton(btn => btn
                 .setButtonText('Cancel')
@@ -206,6 +607,7 @@ class FileSelectorModal extends Modal {
         if (!container) return;
 
         container.empty();
+        this.clearDryRun();
 
         const folder = this.app.vault.getAbstractFileByPath(this.folderPath);
         if (!(folder instanceof TFolder)) {
@@ -250,10 +652,58 @@ class FileSelectorModal extends Modal {
                         } else {
                             this.selectedFiles.delete(file);
                         }
+                        this.clearDryRun();
                     }));
         });
     }
 
+    private clearDryRun() {
+        (this.contentEl.querySelector('.handwrite-modal__dry-run') as HTMLElement | null)?.empty();
+    }
+
+    private showDryRun() {
+        const container = this.contentEl.querySelector('.handwrite-modal__dry-run') as HTMLElement;
+        if (!container) return;
+        container.empty();
+
+        if (this.selectedFiles.size === 0) {
+            container.createEl('p', { text: 'Select files to see the plan', cls: 'handwrite-modal__empty-state' });
+            return;
+        }
+
+        const plans = this.processor.planBatch(Array.from(this.selectedFiles), { profileId: this.profileId || undefined });
+        const warningCount = plans.filter(plan => plan.warnings.length > 0).length;
+        container.createEl('h3', { text: 'Dry run', cls: 'handwrite-modal__results-header' });
+        container.createEl('p', {
+            text: `Nothing is sent to the API. ${plans.length} file${plans.length === 1 ? '' : 's'}`
+                + (warningCount > 0 ? `, ${warningCount} with warnings.` : '.')
+                + ' {name} marks values that are only known after transcription.',
+            cls: 'handwrite-modal__file-count'
+        });
+
+        const list = container.createEl('ul', { cls: 'handwrite-modal__results-list' });
+        plans.forEach(plan => this.renderPlan(list, plan));
+    }
+
+    private renderPlan(list: HTMLElement, plan: PlannedFile) {
+        const item = list.createEl('li', { cls: 'handwrite-modal__plan-item' });
+        item.createDiv({ text: plan.sourcePath, cls: 'handwrite-modal__plan-source' });
+
+        if (plan.outputPath) {
+            const verb = plan.insertsIntoExisting ? 'Adds to' : 'Creates';
+            item.createDiv({ text: `${verb} ${plan.outputPath}`, cls: 'handwrite-modal__result-text' });
+        }
+        if (plan.moveDestination) {
+            item.createDiv({ text: `Moves to ${plan.moveDestination}`, cls: 'handwrite-modal__result-text' });
+        }
+        if (plan.profileName) {
+            item.createDiv({ text: `Profile: ${plan.profileName}`, cls: 'handwrite-modal__result-text' });
+        }
+        for (const warning of plan.warnings) {
+            item.createDiv({ text: `⚠ ${warning}`, cls: 'handwrite-modal__plan-warning' });
+        }
+    }
+
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
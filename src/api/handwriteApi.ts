@@ -0,0 +1,156 @@
+import { EventRef, Events, TFile } from 'obsidian';
+import HandwritePlugin from '../../main';
+import { StructuredResponse } from '../ocr/provider';
+import { getProviderConfigError } from '../ocr/factory';
+import { BatchController } from '../processor/batchControl';
+import { BatchProcessingProgress, FileProcessor, ProcessingOptions, ProcessingResult } from '../processor/fileProcessor';
+
+export interface TranscribeOptions {
+    // Profile id or name; defaults to the profile matching the file's folder
+    profile?: string;
+    // Pause or cancel the work through this controller
+    controller?: BatchController;
+    onProgress?: (message: string) => void;
+}
+
+export interface ProcessToNoteOptions {
+    // Process the file even if the ledger says it is unchanged
+    force?: boolean;
+    controller?: BatchController;
+    onProgress?: (message: string) => void;
+}
+
+export interface BatchOptions {
+    profile?: string;
+    force?: boolean;
+    controller?: BatchController;
+    onProgress?: (progress: BatchProcessingProgress) => void;
+    onResult?: (file: TFile, result: ProcessingResult) => void;
+}
+
+/**
+ * Processing API for other plugins and scripts, available as
+ * `app.plugins.plugins['handwrite-ocr'].api`.
+ *
+ * ```js
+ * const api = app.plugins.plugins['handwrite-ocr'].api;
+ * const { content, extractedVariables } = await api.transcribe('Scans/page.jpg');
+ * ```
+ *
+ * Batch progress is also published as events:
+ * `api.on('batch-progress', progress => ...)` and `api.on('file-processed', (file, result) => ...)`.
+ */
+export class HandwriteApi extends Events {
+    private plugin: HandwritePlugin;
+
+    constructor(plugin: HandwritePlugin) {
+        super();
+        this.plugin = plugin;
+    }
+
+    on(name: 'batch-progress', callback: (progress: BatchProcessingProgress) => unknown, ctx?: unknown): EventRef;
+    on(name: 'file-processed', callback: (file: TFile, result: ProcessingResult) => unknown, ctx?: unknown): EventRef;
+    on(name: string, callback: (...data: never[]) => unknown, ctx?: unknown): EventRef {
+        return super.on(name, callback as (...data: unknown[]) => unknown, ctx);
+    }
+
+    /**
+     * Creates a controller that can pause, resume or cancel work started with it.
+     */
+    createController(): BatchController {
+        return new BatchController();
+    }
+
+    /**
+     * Transcribes an image or PDF and returns the text and extracted variables
+     * without writing anything to the vault.
+     */
+    async transcribe(file: TFile | string, options: TranscribeOptions = {}): Promise<StructuredResponse> {
+        const sourceFile = this.getFile(file);
+        return this.createProcessor().transcribeFile(sourceFile, options.onProgress, {
+            profileId: this.getProfileId(options.profile),
+            controller: options.controller
+        });
+    }
+
+    /**
+     * Transcribes a file and writes its note using the configured output mode.
+     * The result reports failures, including an unknown file or profile or a
+     * missing provider setup, instead of throwing.
+     */
+    async processToNote(file: TFile | string, profile?: string, options: ProcessToNoteOptions = {}): Promise<ProcessingResult> {
+        let processor: FileProcessor;
+        let sourceFile: TFile;
+        let profileId: string | undefined;
+        try {
+            sourceFile = this.getFile(file);
+            profileId = this.getProfileId(profile);
+            processor = this.createProcessor();
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+
+        return processor.processFile(sourceFile, options.onProgress, {
+            profileId,
+            force: options.force,
+            controller: options.controller
+        });
+    }
+
+    /**
+     * Processes several files with the configured number of workers. Resolves
+     * with the result for every file, keyed by path.
+     */
+    async processBatch(files: (TFile | string)[], options: BatchOptions = {}): Promise<Map<string, ProcessingResult>> {
+        const sourceFiles = files.map(file => this.getFile(file));
+        const processingOptions: ProcessingOptions = {
+            profileId: this.getProfileId(options.profile),
+            force: options.force,
+            controller: options.controller
+        };
+
+        return this.createProcessor().processBatch(
+            sourceFiles,
+            (progress) => {
+                options.onProgress?.(progress);
+                this.trigger('batch-progress', progress);
+            },
+            (file, result) => {
+                options.onResult?.(file, result);
+                this.trigger('file-processed', file, result);
+            },
+            processingOptions
+        );
+    }
+
+    private createProcessor(): FileProcessor {
+        const configError = getProviderConfigError(this.plugin.settings);
+        if (configError) {
+            throw new Error(configError);
+        }
+        return new FileProcessor(this.plugin.app, this.plugin.settings, this.plugin.ledger, this.plugin.usageLog, this.plugin.preprocessLog);
+    }
+
+    private getFile(file: TFile | string): TFile {
+        if (file instanceof TFile) return file;
+
+        const found = this.plugin.app.vault.getAbstractFileByPath(file);
+        if (!(found instanceof TFile)) {
+            throw new Error(`File not found: ${file}`);
+        }
+        return found;
+    }
+
+    private getProfileId(profile?: string): string | undefined {
+        if (!profile) return undefined;
+
+        const found = this.plugin.settings.profiles.find(p => p.id === profile || p.name === profile);
+        if (!found) {
+            throw new Error(`Unknown processing profile: ${profile}`);
+        }
+        return found.id;
+    }
+}
@@ -0,0 +1,81 @@
+import { normalizePath } from 'obsidian';
+import { ExtractableVariable } from '../ocr/provider';
+import { HandwriteSettings } from './settings';
+
+export interface ProcessingProfile {
+    id: string;
+    name: string;
+    prompt: string;
+    extractableVariables: ExtractableVariable[];
+    templateContent: string;
+    filenameTemplate: string;
+    outputFolder: string;
+    // Overrides the model of the selected provider when set
+    model: string;
+    defaultTags: string[];
+    // Files in these folders (and their subfolders) use this profile automatically
+    sourceFolders: string[];
+}
+
+/**
+ * Creates a profile seeded with the current global settings.
+ */
+export function createProfile(settings: HandwriteSettings, name: string): ProcessingProfile {
+    return {
+        id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+        name,
+        prompt: settings.prompt,
+        extractableVariables: JSON.parse(JSON.stringify(settings.extractableVariables)),
+        templateContent: settings.templateContent,
+        filenameTemplate: settings.filenameTemplate,
+        outputFolder: settings.outputFolder,
+        model: '',
+        defaultTags: [...settings.defaultTags],
+        sourceFolders: []
+    };
+}
+
+/**
+ * Finds the profile for a file: the explicitly chosen one, otherwise the profile
+ * whose source folder most closely contains the file. Returns undefined when the
+ * global settings apply.
+ */
+export function resolveProfile(settings: HandwriteSettings, filePath: string, profileId?: string): ProcessingProfile | undefined {
+    if (profileId) {
+        return settings.profiles.find(profile => profile.id === profileId);
+    }
+
+    let best: ProcessingProfile | undefined;
+    let bestLength = -1;
+    for (const profile of settings.profiles) {
+        for (const folder of profile.sourceFolders) {
+            if (!folder.trim()) continue;
+            const folderPath = normalizePath(folder);
+            if (filePath.startsWith(folderPath + '/') && folderPath.length > bestLength) {
+                best = profile;
+                bestLength = folderPath.length;
+            }
+        }
+    }
+    return best;
+}
+
+/**
+ * Returns the settings with the profile's fields applied on top.
+ */
+export function applyProfile(settings: HandwriteSettings, profile?: ProcessingProfile): HandwriteSettings {
+    if (!profile) return settings;
+
+    const model = profile.model.trim();
+    return {
+        ...settings,
+        prompt: profile.prompt,
+        extractableVariables: profile.extractableVariables,
+        templateContent: profile.templateContent,
+        filenameTemplate: profile.filenameTemplate,
+        outputFolder: profile.outputFolder,
+        defaultTags: profile.defaultTags,
+        geminiModel: model && settings.ocrProvider === 'gemini' ? model : settings.geminiModel,
+        openaiModel: model && settings.ocrProvider === 'openai-compatible' ? model : settings.openaiModel
+    };
+}
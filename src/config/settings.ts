@@ -1,25 +1,68 @@
-import { ExtractableVariable } from '../gemini/client';
+import { ExtractableVariable, OcrProviderType } from '../ocr/provider';
+import { FilenameCollision, OutputMode } from '../processor/outputTarget';
+import { ProcessingProfile } from './profiles';
+import { EmbedOutputStyle } from '../processor/embeddedImages';
+import { PreprocessFormat } from '../processor/imagePreprocess';
+import { ModelPrice } from '../processor/usageLog';
+import { DEFAULT_MAX_FILENAME_LENGTH } from '../template/renderer';
 
 export interface HandwriteSettings {
+    ocrProvider: OcrProviderType;
     geminiApiKey: string;
     geminiModel: string;
+    openaiBaseUrl: string;
+    openaiApiKey: string;
+    openaiModel: string;
     prompt: string;
     extractableVariables: ExtractableVariable[];
     templateContent: string;
     filenameTemplate: string;
+    filenameCollision: FilenameCollision;
+    // Longest allowed file or folder name, in characters
+    maxFilenameLength: number;
     outputFolder: string;
+    // Used instead of the output or processed files folder when a variable in it is missing
+    fallbackFolder: string;
+    outputMode: OutputMode;
+    targetNotePath: string;
+    targetHeading: string;
+    sectionTemplate: string;
+    embedOutputStyle: EmbedOutputStyle;
     concurrentWorkers: number;
+    maxRetries: number;
+    requestsPerMinute: number;
+    splitPdfPages: boolean;
+    pageSeparator: string;
+    preprocessImages: boolean;
+    preprocessMaxDimension: number;
+    preprocessGrayscale: boolean;
+    preprocessContrast: number;
+    preprocessFormat: PreprocessFormat;
+    preprocessQuality: number;
+    // Used to estimate the cost of the tokens used
+    tokenPrices: ModelPrice[];
+    // Estimated spend per month (USD) after which batches stop, 0 for no limit
+    monthlyBudget: number;
     showProgressBar: boolean;
     debugMode: boolean;
     moveFilesAfterProcessing: boolean;
     processedFilesFolder: string;
     defaultTags: string[];
     autoOpenCreatedNotes: boolean;
+    reviewBeforeWrite: boolean;
+    watchFolderEnabled: boolean;
+    watchFolder: string;
+    watchDebounceMs: number;
+    profiles: ProcessingProfile[];
 }
 
 export const DEFAULT_SETTINGS: HandwriteSettings = {
+    ocrProvider: 'gemini',
     geminiApiKey: '',
     geminiModel: 'gemini-2.5-flash-preview-05-20',
+    openaiBaseUrl: 'http://localhost:11434/v1',
+    openaiApiKey: '',
+    openaiModel: 'llama3.2-vision',
     prompt: `Extract the handwritten text from this image.
 - Put the main text content in the "content" field, preserving ALL line breaks and formatting
 - Use $ for LaTeX, not \`\`\`latex.
@@ -44,14 +87,47 @@ dateModified: {{dateProcessed}}
 
 {{content}}`,
     filenameTemplate: '{{baseName}}.md',
+    filenameCollision: 'counter',
+    maxFilenameLength: DEFAULT_MAX_FILENAME_LENGTH,
     outputFolder: 'Handwritten Notes',
+    fallbackFolder: 'Unsorted',
+    outputMode: 'create',
+    targetNotePath: '',
+    targetHeading: '',
+    sectionTemplate: `{{content}}
+
+*Transcribed from {{markdownLink}}*`,
+    embedOutputStyle: 'callout',
     concurrentWorkers: 4,
+    maxRetries: 3,
+    requestsPerMinute: 0,
+    splitPdfPages: true,
+    pageSeparator: '\n\n---\n\n',
+    preprocessImages: false,
+    preprocessMaxDimension: 2048,
+    preprocessGrayscale: false,
+    preprocessContrast: 100,
+    preprocessFormat: 'image/jpeg',
+    preprocessQuality: 85,
+    tokenPrices: [
+        { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+        { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+        { model: 'gemini-2.0-flash', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+        { model: 'gemini-1.5-pro', inputPerMillion: 1.25, outputPerMillion: 5 },
+        { model: 'gemini-1.5-flash', inputPerMillion: 0.075, outputPerMillion: 0.3 }
+    ],
+    monthlyBudget: 0,
     showProgressBar: true,
     debugMode: false,
     moveFilesAfterProcessing: false,
     processedFilesFolder: 'Processed Handwritten Files',
     defaultTags: [],
-    autoOpenCreatedNotes: false
+    autoOpenCreatedNotes: false,
+    reviewBeforeWrite: false,
+    watchFolderEnabled: false,
+    watchFolder: 'Inbox/Scans',
+    watchDebounceMs: 3000,
+    profiles: []
 };
 
 export const EXAMPLE_EXTRACTABLE_VARIABLES: ExtractableVariable[] = [
@@ -72,9 +148,19 @@ export const EXAMPLE_EXTRACTABLE_VARIABLES: ExtractableVariable[] = [
     },
     {
         name: 'date_composed',
-        type: 'string',
+        type: 'date',
         description: 'Look for any date when these notes were written'
     },
+    {
+        name: 'action_items',
+        type: 'array<object>',
+        description: 'List every action item or task, with who owns it and when it is due',
+        fields: [
+            { name: 'task', type: 'string', description: 'What needs to be done' },
+            { name: 'owner', type: 'string', description: 'Person responsible, if mentioned' },
+            { name: 'due', type: 'date', description: 'Due date, if mentioned' }
+        ]
+    },
     {
         name: 'course',
         type: 'string',
@@ -85,6 +171,11 @@ export const EXAMPLE_EXTRACTABLE_VARIABLES: ExtractableVariable[] = [
         type: 'array',
         description: 'List the main topics or concepts covered'
     },
+    {
+        name: 'is_urgent',
+        type: 'boolean',
+        description: 'Whether the notes are marked as urgent'
+    },
     {
         name: 'priority_score',
         type: 'number',
@@ -0,0 +1,19 @@
+import heic2any from 'heic2any';
+import { ConvertedImage } from './registry';
+
+/**
+ * Converts an iPhone HEIC/HEIF photo to JPEG, which the OCR providers accept.
+ * Only the first image of a HEIC sequence (e.g. a burst) is kept.
+ */
+export async function convertHeic(data: ArrayBuffer): Promise<ConvertedImage> {
+    const converted = await heic2any({
+        blob: new Blob([data], { type: 'image/heic' }),
+        toType: 'image/jpeg',
+        quality: 0.92
+    });
+    const blob = Array.isArray(converted) ? converted[0] : converted;
+    if (!blob) {
+        throw new Error('HEIC file contains no image');
+    }
+    return { data: new Uint8Array(await blob.arrayBuffer()), mimeType: 'image/jpeg' };
+}
@@ -0,0 +1,51 @@
+import { openPdf } from '../processor/pdfPages';
+import { convertHeic } from './heic';
+import { openTiff } from './tiff';
+
+/**
+ * A file made of pages that are rendered and transcribed one at a time.
+ */
+export interface PagedDocument {
+    pageCount: number;
+    renderPage(pageNumber: number): Promise<Uint8Array>;
+    destroy(): Promise<void>;
+}
+
+export interface ConvertedImage {
+    data: Uint8Array;
+    mimeType: string;
+}
+
+export interface FileFormat {
+    extensions: string[];
+    mimeType: string;
+    // Multi-page formats are split into pages, which are transcribed like the pages of a PDF
+    openDocument?: (data: ArrayBuffer) => Promise<PagedDocument>;
+    // Images the OCR providers can't read are converted before upload
+    convertImage?: (data: ArrayBuffer) => Promise<ConvertedImage>;
+}
+
+/**
+ * Every file format the plugin can transcribe. The plugin, the processor and the
+ * UI all decide which files are supported from this list.
+ */
+export const FILE_FORMATS: FileFormat[] = [
+    { extensions: ['pdf'], mimeType: 'application/pdf', openDocument: openPdf },
+    { extensions: ['png'], mimeType: 'image/png' },
+    { extensions: ['jpg', 'jpeg'], mimeType: 'image/jpeg' },
+    { extensions: ['webp'], mimeType: 'image/webp' },
+    { extensions: ['gif'], mimeType: 'image/gif' },
+    { extensions: ['heic', 'heif'], mimeType: 'image/heic', convertImage: convertHeic },
+    { extensions: ['tif', 'tiff'], mimeType: 'image/tiff', openDocument: openTiff }
+];
+
+export const SUPPORTED_EXTENSIONS = FILE_FORMATS.flatMap(format => format.extensions);
+
+export function getFileFormat(extension: string): FileFormat | undefined {
+    const normalized = extension.toLowerCase();
+    return FILE_FORMATS.find(format => format.extensions.includes(normalized));
+}
+
+export function isSupportedExtension(extension: string): boolean {
+    return getFileFormat(extension) !== undefined;
+}
@@ -0,0 +1,49 @@
+import * as UTIF from 'utif';
+import { PagedDocument } from './registry';
+
+// NewSubfileType flag marking a reduced-resolution copy such as a thumbnail
+const REDUCED_RESOLUTION = 1;
+
+/**
+ * Opens a TIFF file, which scanners often write with one page per image.
+ * Each page is decoded and rendered to PNG only when it is requested.
+ */
+export async function openTiff(data: ArrayBuffer): Promise<PagedDocument> {
+    const pages = UTIF.decode(data).filter(ifd => {
+        const subfileType = ifd['t254'] as number[] | undefined;
+        return ifd['t256'] !== undefined && !((subfileType?.[0] ?? 0) & REDUCED_RESOLUTION);
+    });
+    if (pages.length === 0) {
+        throw new Error('TIFF file contains no images');
+    }
+
+    return {
+        pageCount: pages.length,
+        renderPage: async (pageNumber: number) => {
+            const ifd = pages[pageNumber - 1];
+            UTIF.decodeImage(data, ifd);
+            const rgba = UTIF.toRGBA8(ifd);
+
+            const canvas = document.createElement('canvas');
+            canvas.width = ifd.width;
+            canvas.height = ifd.height;
+            const context = canvas.getContext('2d');
+            if (!context) {
+                throw new Error('Failed to create canvas for TIFF page');
+            }
+            context.putImageData(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height), 0, 0);
+
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+            if (!blob) {
+                throw new Error(`Failed to render page ${pageNumber}`);
+            }
+            return new Uint8Array(await blob.arrayBuffer());
+        },
+        destroy: async () => {
+            // Drop decoded pixels so they can be garbage collected
+            for (const ifd of pages) {
+                ifd.data = new Uint8Array(0);
+            }
+        }
+    };
+}
@@ -1,187 +1,115 @@
-import { GoogleGenAI } from '@google/genai';
-
-export interface ExtractableVariable {
-    name: string;
-    type: 'string' | 'array' | 'number';
-    description: string;
-}
-
-export interface StructuredResponse {
-    content: string;
-    extractedVariables: Record<string, any>;
-}
-
-export class GeminiClient {
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Part } from '@google/genai';
+import { ExtractableVariable, OcrProvider, StructuredResponse, TokenUsage } from '../ocr/provider';
+import { buildPrompt } from '../ocr/prompt';
+import { JsonSchema, buildResponseSchema, parseStructuredResponse } from '../ocr/schema';
+import { RetryPolicy, isAbortError, withRetry, wrapRequestError } from '../ocr/retry';
+import { addUsage } from '../processor/usageLog';
+
+export class GeminiClient implements OcrProvider {
+    readonly displayName = 'Gemini';
+    readonly modelName: string;
     private ai: GoogleGenAI;
-    private modelName: string;
     private debugMode: boolean;
-
-    constructor(apiKey: string, modelName: string = 'gemini-2.5-flash-preview-05-20', debugMode: boolean = false) {
+    private retryPolicy: RetryPolicy;
+
+    constructor(
+        apiKey: string,
+        modelName: string = 'gemini-2.5-flash-preview-05-20',
+        debugMode: boolean = false,
+        retryPolicy: RetryPolicy = { maxRetries: 0 }
+    ) {
         this.ai = new GoogleGenAI({ apiKey });
         this.modelName = modelName;
         this.debugMode = debugMode;
+        this.retryPolicy = retryPolicy;
     }
 
-    private buildPrompt(basePrompt: string, extractableVars: ExtractableVariable[]): string {
-        let prompt = basePrompt;
-        
-        if (extractableVars.length > 0) {
-            prompt += '\n\nAdditionally, extract the following variables:\n';
-            for (const variable of extractableVars) {
-                prompt += `- ${variable.name} (${variable.type}): ${variable.description}\n`;
-            }
-        }
-        
-        // Always request JSON format
-        prompt += '\n\nReturn the response in valid JSON format with the following structure:\n';
-        prompt += '{\n';
-        prompt += '  "content": "the transcribed text"';
-        
-        if (extractableVars.length > 0) {
-            prompt += ',\n';
-            for (let i = 0; i < extractableVars.length; i++) {
-                const variable = extractableVars[i];
-                const example = variable.type === 'array' ? '[]' : variable.type === 'number' ? '0' : '""';
-                prompt += `  "${variable.name}": ${example}`;
-                if (i < extractableVars.length - 1) {
-                    prompt += ',\n';
+    private async generate(
+        data: Uint8Array,
+        mimeType: string,
+        prompt: string,
+        extractableVars: ExtractableVariable[],
+        signal?: AbortSignal
+    ): Promise<StructuredResponse> {
+        const finalPrompt = buildPrompt(prompt, extractableVars);
+        const schema = buildResponseSchema(extractableVars);
+
+        const { value: text, retries, usage } = await this.request([
+            { text: finalPrompt },
+            {
+                inlineData: {
+                    mimeType,
+                    data: Buffer.from(data).toString('base64')
                 }
             }
-        }
-        
-        prompt += '\n}';
-        
-        return prompt;
-    }
+        ], schema, signal);
 
-    private parseJSONResponse(text: string | undefined): any {
-        if (!text) {
-            throw new Error('No response text received');
-        }
-        
-        let jsonStr = text;
-        
-        // Try to extract JSON from markdown code blocks
-        if (text.includes('```json')) {
-            const start = text.indexOf('```json') + 7;
-            const end = text.indexOf('```', start);
-            if (end > 0) {
-                jsonStr = text.substring(start, end).trim();
-            }
-        } else if (text.includes('```')) {
-            const start = text.indexOf('```') + 3;
-            const end = text.indexOf('```', start);
-            if (end > 0) {
-                jsonStr = text.substring(start, end).trim();
+        let totalUsage = usage;
+        const response = await parseStructuredResponse(text, extractableVars, async (repairPrompt) => {
+            if (this.debugMode) {
+                console.warn('Gemini response did not match the schema, asking for a repair:', text);
             }
-        }
+            const repair = await this.request([{ text: repairPrompt }], schema, signal);
+            totalUsage = addUsage(totalUsage, repair.usage);
+            return repair.value;
+        });
+        return { ...response, retries, usage: totalUsage };
+    }
 
-        // Try to find JSON by looking for opening brace
-        const jsonStart = jsonStr.indexOf('{');
-        const jsonEnd = jsonStr.lastIndexOf('}');
-        if (jsonStart >= 0 && jsonEnd > jsonStart) {
-            jsonStr = jsonStr.substring(jsonStart, jsonEnd + 1);
-        }
+    private async request(parts: Part[], schema: JsonSchema, signal?: AbortSignal) {
+        const { value: result, retries } = await withRetry(() => this.ai.models.generateContent({
+            model: this.modelName,
+            contents: [{ parts }],
+            config: {
+                abortSignal: signal,
+                responseMimeType: 'application/json',
+                responseJsonSchema: schema
+            }
+        }), { ...this.retryPolicy, signal });
+        return { value: result.text, retries, usage: this.toTokenUsage(result.usageMetadata) };
+    }
 
-        return JSON.parse(jsonStr);
+    private toTokenUsage(metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined {
+        if (!metadata) return undefined;
+        return {
+            inputTokens: metadata.promptTokenCount ?? 0,
+            // Thinking tokens are billed as output
+            outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0)
+        };
     }
 
     async extractStructuredTextFromImage(
         imageData: Uint8Array,
         mimeType: string,
         prompt: string,
-        extractableVars: ExtractableVariable[]
+        extractableVars: ExtractableVariable[],
+        signal?: AbortSignal
     ): Promise<StructuredResponse> {
-        const finalPrompt = this.buildPrompt(prompt, extractableVars);
-
         try {
-            const result = await this.ai.models.generateContent({
-                model: this.modelName,
-                contents: [
-                    {
-                        parts: [
-                            { text: finalPrompt },
-                            {
-                                inlineData: {
-                                    mimeType,
-                                    data: Buffer.from(imageData).toString('base64')
-                                }
-                            }
-                        ]
-                    }
-                ]
-            });
-            
-            const text = result.text;
-            const parsed = this.parseJSONResponse(text);
-            
-            const structuredResponse: StructuredResponse = {
-                content: parsed.content || '',
-                extractedVariables: {}
-            };
-
-            // Extract all variables
-            for (const variable of extractableVars) {
-                if (variable.name in parsed) {
-                    structuredResponse.extractedVariables[variable.name] = parsed[variable.name];
-                }
-            }
-
-            return structuredResponse;
+            return await this.generate(imageData, mimeType, prompt, extractableVars, signal);
         } catch (error) {
+            if (isAbortError(error)) throw error;
             if (this.debugMode) {
                 console.error('Failed to process image:', error);
             }
-            throw new Error(`Failed to process image: ${error}`);
+            throw wrapRequestError('Failed to process image', error);
         }
     }
 
     async extractStructuredTextFromPDF(
         pdfData: Uint8Array,
         prompt: string,
-        extractableVars: ExtractableVariable[]
+        extractableVars: ExtractableVariable[],
+        signal?: AbortSignal
     ): Promise<StructuredResponse> {
-        const finalPrompt = this.buildPrompt(prompt, extractableVars);
-
         try {
-            const result = await this.ai.models.generateContent({
-                model: this.modelName,
-                contents: [
-                    {
-                        parts: [
-                            { text: finalPrompt },
-                            {
-                                inlineData: {
-                                    mimeType: 'application/pdf',
-                                    data: Buffer.from(pdfData).toString('base64')
-                                }
-                            }
-                        ]
-                    }
-                ]
-            });
-            
-            const text = result.text;
-            const parsed = this.parseJSONResponse(text);
-            
-            const structuredResponse: StructuredResponse = {
-                content: parsed.content || '',
-                extractedVariables: {}
-            };
-
-            // Extract all variables
-            for (const variable of extractableVars) {
-                if (variable.name in parsed) {
-                    structuredResponse.extractedVariables[variable.name] = parsed[variable.name];
-                }
-            }
-
-            return structuredResponse;
+            return await this.generate(pdfData, 'application/pdf', prompt, extractableVars, signal);
         } catch (error) {
+            if (isAbortError(error)) throw error;
             if (this.debugMode) {
                 console.error('Failed to process PDF:', error);
             }
-            throw new Error(`Failed to process PDF: ${error}`);
+            throw wrapRequestError('Failed to process PDF', error);
         }
     }
-}
\ No newline at end of file
+}
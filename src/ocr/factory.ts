@@ -0,0 +1,49 @@
+import { HandwriteSettings } from '../config/settings';
+import { GeminiClient } from '../gemini/client';
+import { OpenAICompatibleClient } from '../openai/client';
+import { OcrProvider } from './provider';
+import { RateLimiter, RetryPolicy } from './retry';
+
+export function createOcrProvider(settings: HandwriteSettings): OcrProvider {
+    const retryPolicy: RetryPolicy = {
+        maxRetries: settings.maxRetries,
+        // One limiter per provider, shared by every batch worker
+        rateLimiter: RateLimiter.forKey(settings.ocrProvider, settings.requestsPerMinute),
+        onRetry: (attempt, delayMs, error) => {
+            if (settings.debugMode) {
+                console.warn(`Retrying OCR request (attempt ${attempt}) in ${Math.round(delayMs)}ms:`, error);
+            }
+        }
+    };
+
+    switch (settings.ocrProvider) {
+        case 'openai-compatible':
+            return new OpenAICompatibleClient(
+                settings.openaiBaseUrl,
+                settings.openaiApiKey,
+                settings.openaiModel,
+                settings.debugMode,
+                retryPolicy
+            );
+        case 'gemini':
+        default:
+            return new GeminiClient(settings.geminiApiKey, settings.geminiModel, settings.debugMode, retryPolicy);
+    }
+}
+
+/**
+ * Returns a message describing what is missing from the provider configuration,
+ * or null when the selected provider is ready to use.
+ */
+export function getProviderConfigError(settings: HandwriteSettings): string | null {
+    switch (settings.ocrProvider) {
+        case 'openai-compatible':
+            if (!settings.openaiBaseUrl.trim()) return 'Please set the endpoint URL in the plugin settings';
+            if (!settings.openaiModel.trim()) return 'Please set the model name in the plugin settings';
+            return null;
+        case 'gemini':
+        default:
+            if (!settings.geminiApiKey) return 'Please set your Gemini API key in the plugin settings';
+            return null;
+    }
+}
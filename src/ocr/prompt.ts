@@ -0,0 +1,66 @@
+import { ExtractableVariable } from './provider';
+
+/**
+ * Adds the variables to extract to the prompt. The response format itself is
+ * enforced through the response schema (see schema.ts).
+ */
+export function buildPrompt(basePrompt: string, extractableVars: ExtractableVariable[]): string {
+    let prompt = basePrompt;
+    
+    if (extractableVars.length > 0) {
+        prompt += '\n\nAdditionally, extract the following variables:\n';
+        for (const variable of extractableVars) {
+            prompt += `- ${variable.name} (${describeType(variable)}): ${variable.description}\n`;
+        }
+    }
+    
+    return prompt;
+}
+
+function describeType(variable: ExtractableVariable): string {
+    const fields = (variable.fields ?? []).filter(field => field.name).map(field => field.name).join(', ');
+    switch (variable.type) {
+        case 'date':
+            return 'date as YYYY-MM-DD';
+        case 'enum':
+            return `one of: ${(variable.options ?? []).join(', ')}`;
+        case 'object':
+            return `object with ${fields}`;
+        case 'array<object>':
+            return `list of objects with ${fields}`;
+        default:
+            return variable.type;
+    }
+}
+
+export function parseJSONResponse(text: string | undefined): unknown {
+    if (!text) {
+        throw new Error('No response text received');
+    }
+    
+    let jsonStr = text;
+    
+    // Try to extract JSON from markdown code blocks
+    if (text.includes('```json')) {
+        const start = text.indexOf('```json') + 7;
+        const end = text.indexOf('```', start);
+        if (end > 0) {
+            jsonStr = text.substring(start, end).trim();
+        }
+    } else if (text.includes('```')) {
+        const start = text.indexOf('```') + 3;
+        const end = text.indexOf('```', start);
+        if (end > 0) {
+            jsonStr = text.substring(start, end).trim();
+        }
+    }
+
+    // Try to find JSON by looking for opening brace
+    const jsonStart = jsonStr.indexOf('{');
+    const jsonEnd = jsonStr.lastIndexOf('}');
+    if (jsonStart >= 0 && jsonEnd > jsonStart) {
+        jsonStr = jsonStr.substring(jsonStart, jsonEnd + 1);
+    }
+
+    return JSON.parse(jsonStr);
+}
@@ -0,0 +1,59 @@
+export type ExtractableVariableType =
+    | 'string'
+    | 'number'
+    | 'boolean'
+    | 'date'
+    | 'enum'
+    | 'array'
+    | 'object'
+    | 'array<object>';
+
+export interface ExtractableVariable {
+    name: string;
+    type: ExtractableVariableType;
+    description: string;
+    // Allowed values of an enum variable
+    options?: string[];
+    // Nested fields of an object or array<object> variable
+    fields?: ExtractableVariable[];
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface StructuredResponse {
+    content: string;
+    extractedVariables: Record<string, unknown>;
+    pageCount?: number;
+    // 1-based numbers of pages that could not be transcribed
+    failedPages?: number[];
+    // Number of times requests were retried after transient errors
+    retries?: number;
+    // Tokens used by all requests for this response, when the provider reports them
+    usage?: TokenUsage;
+}
+
+export type OcrProviderType = 'gemini' | 'openai-compatible';
+
+export interface OcrProvider {
+    // Human readable name used in progress messages
+    readonly displayName: string;
+    readonly modelName: string;
+
+    extractStructuredTextFromImage(
+        imageData: Uint8Array,
+        mimeType: string,
+        prompt: string,
+        extractableVars: ExtractableVariable[],
+        signal?: AbortSignal
+    ): Promise<StructuredResponse>;
+
+    extractStructuredTextFromPDF(
+        pdfData: Uint8Array,
+        prompt: string,
+        extractableVars: ExtractableVariable[],
+        signal?: AbortSignal
+    ): Promise<StructuredResponse>;
+}
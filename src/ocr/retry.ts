@@ -0,0 +1,218 @@
+/**
+ * Error raised by OCR providers when a request fails with an HTTP status.
+ * Carries enough detail for {@link classifyError} to decide whether to retry.
+ */
+export class OcrRequestError extends Error {
+    status?: number;
+    retryAfterMs?: number;
+    // The error this one wraps, if any
+    cause?: unknown;
+
+    constructor(message: string, status?: number, retryAfterMs?: number, cause?: unknown) {
+        super(message);
+        this.name = 'OcrRequestError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Reads a numeric field such as `status` from an error of any shape, since SDK
+ * errors carry the HTTP status without sharing a class.
+ */
+export function getErrorNumber(error: unknown, field: 'status' | 'retryAfterMs'): number | undefined {
+    if (typeof error !== 'object' || error === null) return undefined;
+    const value = (error as Record<string, unknown>)[field];
+    return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Adds context to a provider error while keeping its HTTP status, so failures
+ * can still be told apart by status further up.
+ */
+export function wrapRequestError(context: string, error: unknown): OcrRequestError {
+    const status = getErrorNumber(error, 'status');
+    const retryAfterMs = getErrorNumber(error, 'retryAfterMs');
+    const message = error instanceof Error ? error.message : String(error);
+    return new OcrRequestError(`${context}: ${message}`, status, retryAfterMs, error);
+}
+
+export class RequestAbortedError extends Error {
+    constructor(message = 'Cancelled') {
+        super(message);
+        this.name = 'RequestAbortedError';
+    }
+}
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof RequestAbortedError || (error instanceof Error && error.name === 'AbortError');
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) {
+        throw new RequestAbortedError();
+    }
+}
+
+/**
+ * Rejects as soon as the signal aborts, for requests that can't be aborted themselves.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    throwIfAborted(signal);
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new RequestAbortedError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+export interface ErrorClassification {
+    retryable: boolean;
+    retryAfterMs?: number;
+}
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    rateLimiter?: RateLimiter;
+    signal?: AbortSignal;
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export interface RetryResult<T> {
+    value: T;
+    retries: number;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const NETWORK_ERROR_PATTERN = /net::|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|Failed to fetch|network/i;
+
+export function classifyError(error: unknown): ErrorClassification {
+    if (isAbortError(error)) {
+        return { retryable: false };
+    }
+
+    const status = getErrorNumber(error, 'status');
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (status !== undefined) {
+        return {
+            retryable: RETRYABLE_STATUSES.includes(status),
+            retryAfterMs: getErrorNumber(error, 'retryAfterMs') ?? parseRetryDelay(message)
+        };
+    }
+
+    return { retryable: NETWORK_ERROR_PATTERN.test(message) };
+}
+
+/**
+ * Reads retry hints embedded in error bodies, e.g. Gemini's
+ * `"retryDelay": "12s"` or "Please retry in 12.5s".
+ */
+export function parseRetryDelay(message: string): number | undefined {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+ */
+export function parseRetryAfterHeader(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return abortable(new Promise(resolve => window.setTimeout(resolve, ms)), signal);
+}
+
+export async function withRetry<T>(request: () => Promise<T>, policy: RetryPolicy): Promise<RetryResult<T>> {
+    const baseDelay = policy.baseDelayMs ?? 1000;
+    const maxDelay = policy.maxDelayMs ?? 60000;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            throwIfAborted(policy.signal);
+            await abortable(policy.rateLimiter?.acquire() ?? Promise.resolve(), policy.signal);
+            return { value: await abortable(request(), policy.signal), retries: attempt };
+        } catch (error) {
+            const { retryable, retryAfterMs } = classifyError(error);
+            if (!retryable || attempt >= policy.maxRetries) {
+                throw error;
+            }
+
+            // Exponential backoff with jitter, unless the server told us how long to wait
+            const backoff = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+            const jittered = backoff / 2 + Math.random() * backoff / 2;
+            const delay = retryAfterMs !== undefined
+                ? Math.min(maxDelay, retryAfterMs) + Math.random() * 250
+                : jittered;
+
+            policy.onRetry?.(attempt + 1, delay, error);
+            await sleep(delay, policy.signal);
+        }
+    }
+}
+
+/**
+ * Sliding-window limiter that spaces requests so no more than
+ * `requestsPerMinute` start within any 60 second window.
+ */
+export class RateLimiter {
+    private static shared = new Map<string, RateLimiter>();
+
+    private requestsPerMinute: number;
+    private timestamps: number[] = [];
+    private chain: Promise<void> = Promise.resolve();
+
+    constructor(requestsPerMinute: number) {
+        this.requestsPerMinute = requestsPerMinute;
+    }
+
+    /**
+     * Returns the limiter shared by every request to the same provider, so
+     * separate batches (and the inbox watcher) count against one quota.
+     */
+    static forKey(key: string, requestsPerMinute: number): RateLimiter | undefined {
+        if (requestsPerMinute <= 0) return undefined;
+
+        let limiter = RateLimiter.shared.get(key);
+        if (!limiter) {
+            limiter = new RateLimiter(requestsPerMinute);
+            RateLimiter.shared.set(key, limiter);
+        }
+        limiter.requestsPerMinute = requestsPerMinute;
+        return limiter;
+    }
+
+    acquire(): Promise<void> {
+        // Serialize callers so the window is checked one request at a time
+        const next = this.chain.then(() => this.waitForSlot());
+        this.chain = next.catch(() => undefined);
+        return next;
+    }
+
+    private async waitForSlot(): Promise<void> {
+        const windowMs = 60000;
+        for (;;) {
+            const now = Date.now();
+            this.timestamps = this.timestamps.filter(time => now - time < windowMs);
+            if (this.timestamps.length < this.requestsPerMinute) {
+                this.timestamps.push(now);
+                return;
+            }
+            await sleep(windowMs - (now - this.timestamps[0]));
+        }
+    }
+}
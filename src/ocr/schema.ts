@@ -0,0 +1,232 @@
+import { moment } from 'obsidian';
+import { ExtractableVariable, StructuredResponse } from './provider';
+import { parseJSONResponse } from './prompt';
+
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    description?: string;
+    format?: 'date';
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    enum?: string[];
+}
+
+/**
+ * Builds the JSON schema the model's response must follow: the transcribed
+ * `content` plus one property per extractable variable.
+ */
+export function buildResponseSchema(extractableVars: ExtractableVariable[]): JsonSchema {
+    const properties: Record<string, JsonSchema> = {
+        content: {
+            type: 'string',
+            description: 'The transcribed text, preserving all line breaks and formatting'
+        }
+    };
+
+    for (const variable of extractableVars) {
+        if (!variable.name || variable.name === 'content') continue;
+        properties[variable.name] = schemaForVariable(variable);
+    }
+
+    return {
+        type: 'object',
+        properties,
+        required: Object.keys(properties),
+        additionalProperties: false
+    };
+}
+
+function schemaForVariable(variable: ExtractableVariable): JsonSchema {
+    const description = variable.description || undefined;
+    switch (variable.type) {
+        case 'array':
+            return { type: 'array', description, items: { type: 'string' } };
+        case 'number':
+            return { type: 'number', description };
+        case 'boolean':
+            return { type: 'boolean', description };
+        case 'date':
+            return { type: 'string', format: 'date', description };
+        case 'enum':
+            // Without options an enum is just a string
+            return variable.options?.length
+                ? { type: 'string', enum: variable.options, description }
+                : { type: 'string', description };
+        case 'object':
+            return { ...objectSchema(variable.fields ?? []), description };
+        case 'array<object>':
+            return { type: 'array', description, items: objectSchema(variable.fields ?? []) };
+        default:
+            return { type: 'string', description };
+    }
+}
+
+function objectSchema(fields: ExtractableVariable[]): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    for (const field of fields) {
+        if (field.name) {
+            properties[field.name] = schemaForVariable(field);
+        }
+    }
+    return {
+        type: 'object',
+        properties,
+        required: Object.keys(properties),
+        additionalProperties: false
+    };
+}
+
+// Formats tried, in order, when a date isn't returned as YYYY-MM-DD
+const DATE_FORMATS = [
+    'YYYY-MM-DD',
+    moment.ISO_8601,
+    'D/M/YYYY',
+    'D.M.YYYY',
+    'D-M-YYYY',
+    'MMMM D, YYYY',
+    'MMM D, YYYY',
+    'D MMMM YYYY',
+    'D MMM YYYY',
+    'YYYY/M/D'
+];
+
+export class SchemaValidationError extends Error {
+    readonly errors: string[];
+
+    constructor(errors: string[]) {
+        super(`Response did not match the schema: ${errors.join('; ')}`);
+        this.name = 'SchemaValidationError';
+        this.errors = errors;
+    }
+}
+
+/**
+ * Checks a parsed response against the schema, coercing values where the intent
+ * is clear (e.g. "7" to 7, a single string to a one-item list). Throws a
+ * SchemaValidationError listing every value that couldn't be coerced.
+ */
+export function validateResponse(parsed: unknown, extractableVars: ExtractableVariable[]): StructuredResponse {
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new SchemaValidationError(['response is not a JSON object']);
+    }
+
+    const errors: string[] = [];
+    const response = parsed as Record<string, unknown>;
+    const content = coerce(response.content, { type: 'string' }, 'content', errors);
+    const extractedVariables: Record<string, unknown> = {};
+
+    for (const variable of extractableVars) {
+        if (!variable.name || !(variable.name in response)) continue;
+        const value = coerce(response[variable.name], schemaForVariable(variable), variable.name, errors);
+        if (value !== undefined) {
+            extractedVariables[variable.name] = value;
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new SchemaValidationError(errors);
+    }
+
+    return { content: typeof content === 'string' ? content : '', extractedVariables };
+}
+
+function coerce(value: unknown, schema: JsonSchema, path: string, errors: string[]): unknown {
+    // Missing values are left out rather than treated as errors
+    if (value === undefined || value === null) return undefined;
+    // An empty string means "not found" for anything but plain text
+    if (typeof value === 'string' && value.trim() === '' && (schema.type !== 'string' || schema.format || schema.enum)) {
+        return undefined;
+    }
+
+    switch (schema.type) {
+        case 'string':
+            if (schema.format === 'date' && (typeof value === 'string' || typeof value === 'number')) {
+                const date = moment(String(value).trim(), DATE_FORMATS, true);
+                if (date.isValid()) return date.format('YYYY-MM-DD');
+                break;
+            }
+            if (schema.enum && typeof value === 'string') {
+                // Accept any capitalization, but output the option as configured
+                const option = schema.enum.find(option => option.toLowerCase() === value.trim().toLowerCase());
+                if (option !== undefined) return option;
+                break;
+            }
+            if (typeof value === 'string') return value;
+            if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+            break;
+        case 'number':
+            if (typeof value === 'number' && isFinite(value)) return value;
+            if (typeof value === 'string') {
+                const parsed = Number(value.trim());
+                if (isFinite(parsed)) return parsed;
+            }
+            break;
+        case 'boolean':
+            if (typeof value === 'boolean') return value;
+            if (typeof value === 'string' && /^(true|yes)$/i.test(value.trim())) return true;
+            if (typeof value === 'string' && /^(false|no)$/i.test(value.trim())) return false;
+            break;
+        case 'array': {
+            const items = Array.isArray(value)
+                ? value
+                : typeof value === 'string'
+                    ? value.split(',').map(item => item.trim()).filter(item => item.length > 0)
+                    : [value];
+            return items
+                .map((item, index) => coerce(item, schema.items ?? { type: 'string' }, `${path}[${index}]`, errors))
+                .filter(item => item !== undefined);
+        }
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value)) break;
+            if (!schema.properties) return value;
+
+            // Keep only the configured fields, coercing each of them
+            const object: Record<string, unknown> = {};
+            for (const [key, fieldSchema] of Object.entries(schema.properties)) {
+                const field = coerce((value as Record<string, unknown>)[key], fieldSchema, `${path}.${key}`, errors);
+                if (field !== undefined) {
+                    object[key] = field;
+                }
+            }
+            return object;
+        }
+    }
+
+    const expected = schema.format ?? (schema.enum ? `one of ${schema.enum.join(', ')}` : schema.type);
+    errors.push(`${path}: expected ${expected}, got ${JSON.stringify(value)}`);
+    return undefined;
+}
+
+function buildRepairPrompt(text: string | undefined, problem: string, schema: JsonSchema): string {
+    return `Your previous response could not be used: ${problem}
+
+Previous response:
+${text ?? '(empty)'}
+
+Return the same transcription and extracted values as a single JSON object that matches this JSON schema exactly. Do not add any other text.
+
+${JSON.stringify(schema, null, 2)}`;
+}
+
+/**
+ * Parses and validates a model response. If it isn't valid JSON or doesn't match
+ * the schema, the model is asked once to repair its own output through `repair`,
+ * which sends a text-only follow-up request and returns the new response text.
+ */
+export async function parseStructuredResponse(
+    text: string | undefined,
+    extractableVars: ExtractableVariable[],
+    repair: (repairPrompt: string) => Promise<string | undefined>
+): Promise<StructuredResponse> {
+    try {
+        return validateResponse(parseJSONResponse(text), extractableVars);
+    } catch (error) {
+        if (!text) throw error;
+
+        const problem = error instanceof Error ? error.message : String(error);
+        const repaired = await repair(buildRepairPrompt(text, problem, buildResponseSchema(extractableVars)));
+        return validateResponse(parseJSONResponse(repaired), extractableVars);
+    }
+}
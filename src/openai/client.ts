@@ -0,0 +1,126 @@
+import { requestUrl } from 'obsidian';
+import { ExtractableVariable, OcrProvider, StructuredResponse, TokenUsage } from '../ocr/provider';
+import { buildPrompt } from '../ocr/prompt';
+import { JsonSchema, buildResponseSchema, parseStructuredResponse } from '../ocr/schema';
+import { OcrRequestError, RetryPolicy, isAbortError, parseRetryAfterHeader, withRetry, wrapRequestError } from '../ocr/retry';
+import { addUsage } from '../processor/usageLog';
+
+/**
+ * Client for any server exposing an OpenAI-compatible `/chat/completions`
+ * endpoint with vision support (OpenAI, Ollama, llama.cpp, LM Studio, ...).
+ */
+export class OpenAICompatibleClient implements OcrProvider {
+    readonly displayName = 'OpenAI-compatible endpoint';
+    readonly modelName: string;
+    private baseUrl: string;
+    private apiKey: string;
+    private debugMode: boolean;
+    private retryPolicy: RetryPolicy;
+
+    constructor(
+        baseUrl: string,
+        apiKey: string,
+        modelName: string,
+        debugMode = false,
+        retryPolicy: RetryPolicy = { maxRetries: 0 }
+    ) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.apiKey = apiKey;
+        this.modelName = modelName;
+        this.debugMode = debugMode;
+        this.retryPolicy = retryPolicy;
+    }
+
+    async extractStructuredTextFromImage(
+        imageData: Uint8Array,
+        mimeType: string,
+        prompt: string,
+        extractableVars: ExtractableVariable[],
+        signal?: AbortSignal
+    ): Promise<StructuredResponse> {
+        const finalPrompt = buildPrompt(prompt, extractableVars);
+        const schema = buildResponseSchema(extractableVars);
+        const dataUrl = `data:${mimeType};base64,${Buffer.from(imageData).toString('base64')}`;
+
+        try {
+            const { value: { text, usage }, retries } = await withRetry(() => this.chatCompletion([
+                { type: 'text', text: finalPrompt },
+                { type: 'image_url', image_url: { url: dataUrl } }
+            ], schema), { ...this.retryPolicy, signal });
+
+            let totalUsage = usage;
+            const response = await parseStructuredResponse(text, extractableVars, async (repairPrompt) => {
+                if (this.debugMode) {
+                    console.warn('Response did not match the schema, asking for a repair:', text);
+                }
+                const { value: repair } = await withRetry(() => this.chatCompletion([
+                    { type: 'text', text: repairPrompt }
+                ], schema), { ...this.retryPolicy, signal });
+                totalUsage = addUsage(totalUsage, repair.usage);
+                return repair.text;
+            });
+            return { ...response, retries, usage: totalUsage };
+        } catch (error) {
+            // requestUrl can't be aborted, so withRetry stops waiting for it instead
+            if (isAbortError(error)) throw error;
+            if (this.debugMode) {
+                console.error('Failed to process image:', error);
+            }
+            throw wrapRequestError('Failed to process image', error);
+        }
+    }
+
+    async extractStructuredTextFromPDF(
+        pdfData: Uint8Array,
+        prompt: string,
+        extractableVars: ExtractableVariable[],
+        signal?: AbortSignal
+    ): Promise<StructuredResponse> {
+        throw new Error('Failed to process PDF: PDF files are not supported by OpenAI-compatible endpoints. Enable "Split PDFs into Pages" to send them as page images.');
+    }
+
+    private async chatCompletion(
+        content: Record<string, unknown>[],
+        schema: JsonSchema
+    ): Promise<{ text: string | undefined; usage: TokenUsage | undefined }> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json'
+        };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        // requestUrl bypasses CORS, which local servers rarely configure
+        const response = await requestUrl({
+            url: `${this.baseUrl}/chat/completions`,
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: this.modelName,
+                messages: [{ role: 'user', content }],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'transcription', schema, strict: true }
+                }
+            }),
+            throw: false
+        });
+
+        if (response.status >= 400) {
+            const detail = response.text ? `: ${response.text.slice(0, 500)}` : '';
+            const retryAfter = response.headers['retry-after'] ?? response.headers['Retry-After'];
+            throw new OcrRequestError(
+                `Request failed with status ${response.status}${detail}`,
+                response.status,
+                parseRetryAfterHeader(retryAfter)
+            );
+        }
+
+        // Local servers don't always report usage
+        const usage = response.json?.usage;
+        return {
+            text: response.json?.choices?.[0]?.message?.content,
+            usage: usage ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : undefined
+        };
+    }
+}
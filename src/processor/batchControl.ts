@@ -0,0 +1,60 @@
+import { RequestAbortedError } from '../ocr/retry';
+
+/**
+ * Lets the UI pause, resume and cancel a running batch. Pausing holds back
+ * files (and PDF pages) that haven't started; cancelling also aborts
+ * requests that are already in flight.
+ */
+export class BatchController {
+    private abortController = new AbortController();
+    private paused = false;
+    private resumeWaiters: (() => void)[] = [];
+
+    get signal(): AbortSignal {
+        return this.abortController.signal;
+    }
+
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    get isCancelled(): boolean {
+        return this.abortController.signal.aborted;
+    }
+
+    pause() {
+        if (!this.isCancelled) {
+            this.paused = true;
+        }
+    }
+
+    resume() {
+        this.paused = false;
+        this.releaseWaiters();
+    }
+
+    cancel() {
+        this.paused = false;
+        this.abortController.abort();
+        this.releaseWaiters();
+    }
+
+    /**
+     * Resolves immediately unless paused, in which case it waits for resume.
+     * Throws if the batch has been cancelled.
+     */
+    async checkpoint(): Promise<void> {
+        if (this.paused) {
+            await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+        }
+        if (this.isCancelled) {
+            throw new RequestAbortedError();
+        }
+    }
+
+    private releaseWaiters() {
+        const waiters = this.resumeWaiters;
+        this.resumeWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+}
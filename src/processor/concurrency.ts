@@ -0,0 +1,39 @@
+/**
+ * Limits how many async tasks run at the same time. Used to keep page-level
+ * requests within the configured worker count when files are split into pages.
+ */
+export class Semaphore {
+    private available: number;
+    private waiting: (() => void)[] = [];
+
+    constructor(permits: number) {
+        this.available = Math.max(1, permits);
+    }
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(): Promise<void> {
+        if (this.available > 0) {
+            this.available--;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    private release() {
+        const next = this.waiting.shift();
+        if (next) {
+            // Hand the permit straight to the next waiting task
+            next();
+        } else {
+            this.available++;
+        }
+    }
+}
@@ -0,0 +1,132 @@
+import { App, TFile } from 'obsidian';
+import { isSupportedExtension } from '../formats/registry';
+
+export type EmbedOutputStyle = 'callout' | 'quote' | 'replace';
+
+export interface EmbeddedImage {
+    // The embed as written in the note, e.g. `![[IMG_1234.jpg]]`
+    text: string;
+    offset: number;
+    file: TFile;
+}
+
+// Callout type used for inserted transcriptions, so already transcribed embeds can be recognized
+const CALLOUT_TYPE = 'handwrite';
+// Hidden comment that starts inserted quote blocks, for the same reason
+const QUOTE_MARKER = '%% handwrite %%';
+
+const WIKI_EMBED = /!\[\[([^\]|#^]+)(?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+const MARKDOWN_EMBED = /!\[[^\]]*\]\(\s*<?([^)>\s]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Finds embeds of supported files in a note, optionally only between two offsets.
+ * Unless they are replaced, embeds that already have a transcription callout or quote below them are skipped.
+ */
+export function findEmbeddedImages(
+    app: App,
+    note: TFile,
+    content: string,
+    style: EmbedOutputStyle,
+    from = 0,
+    to = content.length
+): EmbeddedImage[] {
+    const embeds: EmbeddedImage[] = [];
+
+    for (const pattern of [WIKI_EMBED, MARKDOWN_EMBED]) {
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(content)) !== null) {
+            const offset = match.index;
+            if (offset < from || offset + match[0].length > to) continue;
+
+            let linkpath = match[1].trim();
+            if (/^[a-z]+:\/\//i.test(linkpath)) continue;
+            try {
+                linkpath = decodeURI(linkpath);
+            } catch (error) {
+                // Keep the path as written if it isn't valid URI encoding
+            }
+
+            const file = app.metadataCache.getFirstLinkpathDest(linkpath, note.path);
+            if (!file || !isSupportedExtension(file.extension)) continue;
+            if (style !== 'replace' && hasTranscriptionBelow(content, lineEnd(content, offset + match[0].length))) continue;
+
+            embeds.push({ text: match[0], offset, file });
+        }
+    }
+
+    return embeds.sort((a, b) => a.offset - b.offset);
+}
+
+function lineEnd(content: string, offset: number): number {
+    const end = content.indexOf('\n', offset);
+    return end === -1 ? content.length : end;
+}
+
+function hasTranscriptionBelow(content: string, end: number): boolean {
+    const following = content.slice(end).replace(/^[ \t]*\r?\n(\s*\r?\n)*/, '');
+    return following.startsWith(`> [!${CALLOUT_TYPE}]`) || following.startsWith(`> ${QUOTE_MARKER}`);
+}
+
+export function formatTranscription(text: string, style: EmbedOutputStyle, sourceName: string): string {
+    const lines = text.trim().split('\n');
+    switch (style) {
+        case 'replace':
+            return text.trim();
+        case 'quote':
+            return [`> ${QUOTE_MARKER}`, ...lines.map(line => `> ${line}`.trimEnd())].join('\n');
+        case 'callout':
+        default:
+            return [`> [!${CALLOUT_TYPE}] Transcription of ${sourceName}`, ...lines.map(line => `> ${line}`.trimEnd())].join('\n');
+    }
+}
+
+/**
+ * Inserts transcriptions below the lines of their embeds, or replaces the embeds. Each embed is
+ * found again in the current content by its text and position among identical
+ * embeds, so edits made while the images were transcribed are kept.
+ */
+export function insertTranscriptions(
+    content: string,
+    originalContent: string,
+    transcriptions: { embed: EmbeddedImage; text: string }[],
+    style: EmbedOutputStyle
+): string {
+    // Work from the end so earlier offsets stay valid
+    const located = transcriptions
+        .map(transcription => ({
+            ...transcription,
+            offset: locateEmbed(content, originalContent, transcription.embed)
+        }))
+        .filter(transcription => transcription.offset !== -1)
+        .sort((a, b) => b.offset - a.offset);
+
+    for (const { embed, text, offset } of located) {
+        const formatted = formatTranscription(text, style, embed.file.name);
+        if (style === 'replace') {
+            content = content.slice(0, offset) + formatted + content.slice(offset + embed.text.length);
+        } else {
+            // Blocks can't start mid-line, so the transcription goes below the embed's line
+            const end = lineEnd(content, offset + embed.text.length);
+            const after = content.slice(end).replace(/^\r?\n/, '');
+            // Keep a blank line after the block so following text isn't pulled into it
+            const separator = after === '' || /^\r?\n/.test(after) ? '\n' : '\n\n';
+            content = content.slice(0, end) + '\n\n' + formatted + separator + after;
+        }
+    }
+
+    return content;
+}
+
+function locateEmbed(content: string, originalContent: string, embed: EmbeddedImage): number {
+    let occurrence = 0;
+    for (let index = originalContent.indexOf(embed.text); index !== -1 && index < embed.offset; index = originalContent.indexOf(embed.text, index + 1)) {
+        occurrence++;
+    }
+
+    let index = content.indexOf(embed.text);
+    for (let i = 0; i < occurrence && index !== -1; i++) {
+        index = content.indexOf(embed.text, index + 1);
+    }
+    return index;
+}
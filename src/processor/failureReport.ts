@@ -0,0 +1,99 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { getErrorNumber } from '../ocr/retry';
+
+export type FailureCategory = 'auth' | 'quota' | 'parse' | 'empty-text' | 'move-failed' | 'write-failed' | 'other';
+
+export const FAILURE_CATEGORY_LABELS: Record<FailureCategory, string> = {
+    'auth': 'Authentication',
+    'quota': 'Quota or rate limit',
+    'parse': 'Unreadable response',
+    'empty-text': 'No text found',
+    'move-failed': 'Moving the source failed',
+    'write-failed': 'Writing the note failed',
+    'other': 'Other'
+};
+
+export interface FailureEntry {
+    sourcePath: string;
+    category: FailureCategory;
+    error: string;
+}
+
+/**
+ * Error raised by a processing step whose failures have a known category.
+ */
+export class ProcessingError extends Error {
+    readonly category: FailureCategory;
+
+    constructor(category: FailureCategory, message: string) {
+        super(message);
+        this.name = 'ProcessingError';
+        this.category = category;
+    }
+}
+
+const AUTH_PATTERN = /\b(401|403)\b|API[_ ]?key|unauthori[sz]ed|permission[_ ]denied|UNAUTHENTICATED/i;
+const QUOTA_PATTERN = /\b429\b|quota|RESOURCE_EXHAUSTED|rate[_ ]?limit/i;
+const PARSE_PATTERN = /SchemaValidationError|SyntaxError|JSON|No response text/i;
+
+/**
+ * Sorts an error into a failure category. Provider errors are wrapped in plain
+ * errors along the way, so besides the HTTP status this goes by their message.
+ */
+export function categorizeFailure(error: unknown): FailureCategory {
+    if (error instanceof ProcessingError) {
+        return error.category;
+    }
+
+    const status = getErrorNumber(error, 'status');
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 429) return 'quota';
+
+    const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    if (AUTH_PATTERN.test(message)) return 'auth';
+    if (QUOTA_PATTERN.test(message)) return 'quota';
+    if (PARSE_PATTERN.test(message)) return 'parse';
+    return 'other';
+}
+
+/**
+ * Renders failures as a markdown note, grouped by category, so they can be
+ * triaged later.
+ */
+export function buildFailureReport(failures: FailureEntry[], date = moment()): string {
+    const lines = [
+        '# Handwrite OCR failure report',
+        '',
+        `Generated ${date.format('YYYY-MM-DD HH:mm')}. ${failures.length} file${failures.length === 1 ? '' : 's'} failed.`
+    ];
+
+    const categories = (Object.keys(FAILURE_CATEGORY_LABELS) as FailureCategory[])
+        .filter(category => failures.some(failure => failure.category === category));
+
+    for (const category of categories) {
+        const entries = failures.filter(failure => failure.category === category);
+        lines.push('', `## ${FAILURE_CATEGORY_LABELS[category]} (${entries.length})`, '', '| File | Detail |', '| --- | --- |');
+        for (const entry of entries) {
+            lines.push(`| [[${entry.sourcePath}]] | ${escapeTableCell(entry.error)} |`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim();
+}
+
+/**
+ * Writes a failure report to a new note in the vault root and returns it.
+ */
+export async function exportFailureReport(app: App, failures: FailureEntry[]): Promise<TFile> {
+    const date = moment();
+    const basePath = `Handwrite OCR failures ${date.format('YYYY-MM-DD HHmmss')}`;
+    let path = normalizePath(`${basePath}.md`);
+    for (let counter = 1; app.vault.getAbstractFileByPath(path); counter++) {
+        path = normalizePath(`${basePath} ${counter}.md`);
+    }
+    return app.vault.create(path, buildFailureReport(failures, date));
+}
@@ -1,12 +1,92 @@
 import { TFile, TFolder, Vault, normalizePath, FileManager, App } from 'obsidian';
-import { GeminiClient, StructuredResponse } from '../gemini/client';
+import { OcrProvider, StructuredResponse, TokenUsage } from '../ocr/provider';
+import { createOcrProvider } from '../ocr/factory';
 import { HandwriteSettings } from '../config/settings';
+import { ProcessingProfile, applyProfile, resolveProfile } from '../config/profiles';
 import { TemplateRenderer } from '../template/renderer';
+import { LedgerEntry, ProcessingLedger } from './ledger';
+import { UsageLog, addUsage, estimateCost } from './usageLog';
+import { Job, JobQueue } from './jobQueue';
+import { FailureCategory, ProcessingError, categorizeFailure } from './failureReport';
+import { Semaphore } from './concurrency';
+import { PreprocessLog, PreprocessedImage, preprocessImage } from './imagePreprocess';
+import { FileFormat, PagedDocument, getFileFormat, isSupportedExtension } from '../formats/registry';
+import { BatchController } from './batchControl';
+import { isAbortError, throwIfAborted } from '../ocr/retry';
+import { getDailyNotePath, getDailyNoteTemplate, insertSection, replaceTranscription, splitFrontmatter, wrapNoteBody } from './outputTarget';
 
 export interface ProcessingResult {
     success: boolean;
     filePath?: string;
     error?: string;
+    skipped?: boolean;
+    // Why the file was skipped: unchanged since it was transcribed, skipped during
+    // review, or its note's path was already taken
+    skipReason?: 'unchanged' | 'review' | 'exists';
+    failedPages?: number[];
+    retries?: number;
+    cancelled?: boolean;
+    // Set when a batch was cancelled before this file was picked up
+    notStarted?: boolean;
+    errorCategory?: FailureCategory;
+    // Set when a batch stopped before this file because the monthly budget was reached
+    budgetExceeded?: boolean;
+    // Tokens used for this file, including regenerations during review
+    usage?: TokenUsage;
+    // Estimated cost of those tokens in USD
+    cost?: number;
+}
+
+export interface ReviewDraft {
+    result: StructuredResponse;
+    outputFilename: string;
+    // Settings for this file, with its processing profile applied
+    settings: HandwriteSettings;
+}
+
+export type ReviewDecision =
+    | { action: 'accept'; result: StructuredResponse; outputFilename: string }
+    | { action: 'skip' }
+    | { action: 'regenerate' };
+
+export interface ProcessingOptions {
+    // Reprocess files even if the ledger says they are unchanged
+    force?: boolean;
+    controller?: BatchController;
+    // Processing profile to use instead of the one matched by source folder
+    profileId?: string;
+    // Called with each transcription before anything is written to the vault
+    review?: (file: TFile, draft: ReviewDraft) => Promise<ReviewDecision>;
+    // Records the progress of a batch so it can be resumed after a restart
+    jobQueue?: JobQueue;
+    // The files are queued jobs being resumed, which keep the options they were queued with
+    resume?: boolean;
+}
+
+export interface NoteDraft {
+    outputPath: string;
+    content: string;
+}
+
+// Frontmatter keys written to every created note
+export const PROVENANCE_KEYS = {
+    source: 'handwrite-source',
+    hash: 'handwrite-hash',
+    model: 'handwrite-model',
+    profile: 'handwrite-profile',
+    promptVersion: 'handwrite-prompt-version',
+    processed: 'handwrite-processed'
+};
+
+export interface PlannedFile {
+    sourcePath: string;
+    // May contain `{name}` placeholders for extracted variables
+    outputPath: string;
+    // Set for the append, prepend and daily-note modes, which add to a note instead of creating one
+    insertsIntoExisting: boolean;
+    warnings: string[];
+    moveDestination?: string;
+    profileName?: string;
 }
 
 export interface BatchProcessingProgress {
@@ -20,21 +100,77 @@ export class FileProcessor {
     private vault: Vault;
     private fileManager: FileManager;
     private settings: HandwriteSettings;
-    private geminiClient: GeminiClient;
+    // One provider per model, since profiles can override the model
+    private ocrProviders = new Map<string, OcrProvider>();
+    private ledger?: ProcessingLedger;
+    private usageLog?: UsageLog;
+    private preprocessLog?: PreprocessLog;
+    // Shared by all files and pages so page-level requests respect the worker limit
+    private requestSlots: Semaphore;
+    // Move destinations of files whose notes are being written, so no other file of
+    // the batch is planned to go there before they have been moved
+    private reservedDestinations = new Set<string>();
 
-    constructor(app: App, settings: HandwriteSettings) {
+    constructor(
+        app: App,
+        settings: HandwriteSettings,
+        ledger?: ProcessingLedger,
+        usageLog?: UsageLog,
+        preprocessLog?: PreprocessLog
+    ) {
         this.app = app;
         this.vault = app.vault;
         this.fileManager = app.fileManager;
         this.settings = settings;
-        this.geminiClient = new GeminiClient(settings.geminiApiKey, settings.geminiModel, settings.debugMode);
+        this.ledger = ledger;
+        this.usageLog = usageLog;
+        this.preprocessLog = preprocessLog;
+        this.requestSlots = new Semaphore(settings.concurrentWorkers);
+    }
+
+    /**
+     * Returns the settings used for a file: the global settings with the chosen
+     * profile, or the profile matching the file's folder, applied on top.
+     */
+    resolveSettings(file: TFile, options: ProcessingOptions = {}): HandwriteSettings {
+        return applyProfile(this.settings, resolveProfile(this.settings, file.path, options.profileId));
+    }
+
+    /**
+     * The profile a note was made with, as recorded in its provenance. Notes
+     * without provenance fall back to the profile matching the source's folder.
+     */
+    private getRecordedProfile(note: TFile, source: TFile): ProcessingProfile | undefined {
+        const frontmatter = this.app.metadataCache.getFileCache(note)?.frontmatter;
+        if (!frontmatter?.[PROVENANCE_KEYS.source]) {
+            return resolveProfile(this.settings, source.path);
+        }
+        const name = frontmatter[PROVENANCE_KEYS.profile];
+        return name ? this.settings.profiles.find(profile => profile.name === name) : undefined;
     }
 
-    async processFile(file: TFile, progressCallback?: (progress: string) => void): Promise<ProcessingResult> {
+    private getOcrProvider(settings: HandwriteSettings): OcrProvider {
+        const model = settings.ocrProvider === 'openai-compatible' ? settings.openaiModel : settings.geminiModel;
+        const key = `${settings.ocrProvider}:${model}`;
+        let provider = this.ocrProviders.get(key);
+        if (!provider) {
+            provider = createOcrProvider(settings);
+            this.ocrProviders.set(key, provider);
+        }
+        return provider;
+    }
+
+    async processFile(
+        file: TFile,
+        progressCallback?: (progress: string) => void,
+        options: ProcessingOptions = {}
+    ): Promise<ProcessingResult> {
+        const settings = this.resolveSettings(file, options);
+        let moveDestination: string | undefined;
         try {
             const fileExt = file.extension.toLowerCase();
             
-            if (!this.isSupportedFile(fileExt)) {
+            if (!isSupportedExtension(fileExt)) {
                 return {
                     success: false,
                     error: `Unsupported file type: ${fileExt}`
@@ -43,62 +179,440 @@ export class FileProcessor {
 
             progressCallback?.(`Reading ${file.name}...`);
             const fileData = await this.vault.readBinary(file);
-            const uint8Array = new Uint8Array(fileData);
 
-            progressCallback?.(`Processing with Gemini...`);
-            let result: StructuredResponse;
-            
-            if (fileExt === 'pdf') {
-                result = await this.geminiClient.extractStructuredTextFromPDF(
-                    uint8Array,
-                    this.settings.prompt,
-                    this.settings.extractableVariables
-                );
-            } else {
-                const mimeType = this.getMimeType(fileExt);
-                result = await this.geminiClient.extractStructuredTextFromImage(
-                    uint8Array,
-                    mimeType,
-                    this.settings.prompt,
-                    this.settings.extractableVariables
-                );
+            // Skip files whose current content has already been transcribed
+            const contentHash = await ProcessingLedger.hashContent(fileData);
+            if (this.ledger && !options.force) {
+                const entry = this.ledger.get(file.path, contentHash);
+                if (entry && this.vault.getAbstractFileByPath(entry.outputPath)) {
+                    // The note was written but the source couldn't be moved, so only retry the move
+                    if (entry.moveDestination && this.settings.moveFilesAfterProcessing) {
+                        progressCallback?.(`Moving source file...`);
+                        await this.completeMove(file, entry, entry.moveDestination, {});
+                        return {
+                            success: true,
+                            filePath: entry.outputPath
+                        };
+                    }
+                    return {
+                        success: true,
+                        skipped: true,
+                        skipReason: 'unchanged',
+                        filePath: entry.outputPath
+                    };
+                }
             }
 
+            const signal = options.controller?.signal;
+            let result = await this.transcribe(file, fileData, settings, progressCallback, options);
+            let usage = result.usage;
+            let outputFilename: string | undefined;
+
+            // Let the user correct the transcription before it is written
+            while (options.review) {
+                const decision = await options.review(file, {
+                    result,
+                    outputFilename: this.getOutputFilename(file, result, settings),
+                    settings
+                });
+                throwIfAborted(signal);
+
+                if (decision.action === 'skip') {
+                    return {
+                        success: false,
+                        skipped: true,
+                        skipReason: 'review',
+                        error: 'Skipped during review'
+                    };
+                }
+                if (decision.action === 'accept') {
+                    result = { ...decision.result, usage };
+                    outputFilename = decision.outputFilename;
+                    break;
+                }
+                result = await this.transcribe(file, fileData, settings, progressCallback, options);
+                usage = addUsage(usage, result.usage);
+                result = { ...result, usage };
+            }
+
+            // Don't write anything once the batch has been cancelled
+            throwIfAborted(signal);
+
             if (!result.content || result.content.trim() === '') {
                 return {
                     success: false,
-                    error: 'No text extracted from file'
+                    error: 'No text extracted from file',
+                    errorCategory: 'empty-text'
                 };
             }
 
+            if (settings.outputMode === 'create' && settings.filenameCollision === 'skip') {
+                const notePath = this.getNotePath(file, result, settings, outputFilename);
+                if (this.vault.getAbstractFileByPath(notePath)) {
+                    return {
+                        success: false,
+                        skipped: true,
+                        skipReason: 'exists',
+                        error: `A note already exists at ${notePath}`,
+                        usage,
+                        cost: this.getCost(usage, settings)
+                    };
+                }
+            }
+
+            // Decided before the note is written so its link points to where the file ends up
+            if (this.settings.moveFilesAfterProcessing) {
+                moveDestination = this.getMoveDestination(file, result.extractedVariables);
+                this.reservedDestinations.add(moveDestination);
+            }
+
             progressCallback?.(`Creating note...`);
-            const outputPath = await this.createNote(file, result);
+            let outputPath: string;
+            try {
+                outputPath = await this.createNote(file, result, settings, outputFilename, moveDestination);
+            } catch (error) {
+                throw new ProcessingError('write-failed', `Failed to write note: ${error instanceof Error ? error.message : error}`);
+            }
+
+            // Recorded before the move, so a note whose source couldn't be moved is still
+            // known. The ledger follows the move like any other rename.
+            if (settings.outputMode === 'create') {
+                await this.writeProvenance(
+                    outputPath,
+                    file.path,
+                    contentHash,
+                    settings,
+                    resolveProfile(this.settings, file.path, options.profileId)
+                );
+            }
+
+            const entry: LedgerEntry = {
+                sourcePath: file.path,
+                contentHash,
+                outputPath,
+                model: this.getOcrProvider(settings).modelName,
+                processedAt: new Date().toISOString(),
+                moveDestination
+            };
+            await this.ledger?.record(entry);
 
             // Move the source file if enabled
-            if (this.settings.moveFilesAfterProcessing) {
+            if (moveDestination) {
                 progressCallback?.(`Moving source file...`);
-                await this.moveSourceFile(file);
+                await this.completeMove(file, entry, moveDestination, result.extractedVariables);
             }
 
             return {
                 success: true,
-                filePath: outputPath
+                filePath: outputPath,
+                failedPages: result.failedPages,
+                retries: result.retries,
+                usage,
+                cost: this.getCost(usage, settings)
             };
         } catch (error) {
-            if (this.settings.debugMode) {
-                console.error('Error processing file:', error);
+            return this.toFailureResult(error);
+        } finally {
+            if (moveDestination) {
+                this.reservedDestinations.delete(moveDestination);
+            }
+        }
+    }
+
+    /**
+     * Transcribes a file without writing anything to the vault.
+     */
+    async transcribeFile(
+        file: TFile,
+        progressCallback?: (progress: string) => void,
+        options: ProcessingOptions = {}
+    ): Promise<StructuredResponse> {
+        if (!isSupportedExtension(file.extension)) {
+            throw new Error(`Unsupported file type: ${file.extension}`);
+        }
+        const settings = this.resolveSettings(file, options);
+        const fileData = await this.vault.readBinary(file);
+        return this.transcribe(file, fileData, settings, progressCallback, options);
+    }
+
+    /**
+     * Transcribes a note's source file again and refreshes the note in place. Only
+     * the marked body and frontmatter fields named after extracted variables are
+     * replaced, so anything the user added outside the markers is kept.
+     */
+    async retranscribeNote(
+        note: TFile,
+        source: TFile,
+        progressCallback?: (progress: string) => void,
+        options: ProcessingOptions = {}
+    ): Promise<ProcessingResult> {
+        // The source may have been moved out of its profile's folder, so go by the
+        // profile the note was made with
+        const profile = options.profileId
+            ? resolveProfile(this.settings, source.path, options.profileId)
+            : this.getRecordedProfile(note, source);
+        const settings = applyProfile(this.settings, profile);
+        try {
+            if (replaceTranscription(await this.vault.read(note), '') === null) {
+                return {
+                    success: false,
+                    error: 'The note has no single marked transcription region to replace'
+                };
+            }
+
+            progressCallback?.(`Reading ${source.name}...`);
+            const fileData = await this.vault.readBinary(source);
+            const result = await this.transcribe(source, fileData, settings, progressCallback, options);
+            throwIfAborted(options.controller?.signal);
+
+            if (!result.content || result.content.trim() === '') {
+                return {
+                    success: false,
+                    error: 'No text extracted from file',
+                    errorCategory: 'empty-text'
+                };
             }
+
+            progressCallback?.(`Updating note...`);
+            const { body } = splitFrontmatter(this.renderContent(
+                source,
+                result,
+                settings,
+                source.path,
+                this.fileManager.generateMarkdownLink(source, note.path)
+            ));
+            await this.vault.process(note, (content) => {
+                const updated = replaceTranscription(content, body);
+                if (updated === null) {
+                    throw new Error('The transcription markers were removed from the note');
+                }
+                return updated;
+            });
+
+            // Refresh frontmatter fields that hold extracted variables
+            const variables: Record<string, unknown> = {
+                ...result.extractedVariables,
+                tags: this.mergeTagsWithDefaults(result.extractedVariables.tags || [], settings)
+            };
+            const variableNames = new Set(settings.extractableVariables.map(variable => variable.name));
+            await this.fileManager.processFrontMatter(note, (frontmatter) => {
+                for (const name of variableNames) {
+                    if (name in frontmatter && variables[name] !== undefined) {
+                        frontmatter[name] = variables[name];
+                    }
+                }
+            });
+
+            const contentHash = await ProcessingLedger.hashContent(fileData);
+            await this.writeProvenance(note.path, source.path, contentHash, settings, profile);
+
+            await this.ledger?.record({
+                sourcePath: source.path,
+                contentHash,
+                outputPath: note.path,
+                model: this.getOcrProvider(settings).modelName,
+                processedAt: new Date().toISOString()
+            });
+
+            return {
+                success: true,
+                filePath: note.path,
+                failedPages: result.failedPages,
+                retries: result.retries,
+                usage: result.usage,
+                cost: this.getCost(result.usage, settings)
+            };
+        } catch (error) {
+            return this.toFailureResult(error);
+        }
+    }
+
+    /**
+     * Records where a note came from in its frontmatter, so the note and its
+     * source can be found from each other even without the ledger.
+     */
+    private async writeProvenance(
+        notePath: string,
+        sourcePath: string,
+        contentHash: string,
+        settings: HandwriteSettings,
+        profile: ProcessingProfile | undefined
+    ) {
+        const note = this.vault.getAbstractFileByPath(notePath);
+        if (!(note instanceof TFile)) return;
+
+        // Changes whenever the prompt or the variables to extract change
+        const promptVersion = (await ProcessingLedger.hashContent(
+            new TextEncoder().encode(JSON.stringify([settings.prompt, settings.extractableVariables])).buffer
+        )).slice(0, 8);
+
+        await this.fileManager.processFrontMatter(note, (frontmatter) => {
+            frontmatter[PROVENANCE_KEYS.source] = `[[${sourcePath}]]`;
+            frontmatter[PROVENANCE_KEYS.hash] = contentHash;
+            frontmatter[PROVENANCE_KEYS.model] = this.getOcrProvider(settings).modelName;
+            if (profile) {
+                frontmatter[PROVENANCE_KEYS.profile] = profile.name;
+            } else {
+                delete frontmatter[PROVENANCE_KEYS.profile];
+            }
+            frontmatter[PROVENANCE_KEYS.promptVersion] = promptVersion;
+            frontmatter[PROVENANCE_KEYS.processed] = new Date().toISOString();
+        });
+    }
+
+    /**
+     * Moves the source of a ledger entry to its planned destination, then clears the
+     * destination from the entry and points the note's provenance at the new path.
+     */
+    private async completeMove(file: TFile, entry: LedgerEntry, destination: string, variables: Record<string, unknown>) {
+        const sourcePath = await this.moveSourceFile(file, destination, variables);
+        if (sourcePath !== destination) {
+            await this.relinkSource(entry.outputPath, destination, sourcePath);
+        }
+        await this.ledger?.record({ ...entry, sourcePath, moveDestination: undefined });
+        await this.updateProvenanceSource(entry.outputPath, sourcePath);
+    }
+
+    /**
+     * Points the links a note was rendered with at the path its source was actually
+     * moved to, when the planned destination was taken by the time of the move.
+     */
+    private async relinkSource(notePath: string, plannedPath: string, sourcePath: string) {
+        const note = this.vault.getAbstractFileByPath(notePath);
+        if (!(note instanceof TFile)) return;
+
+        await this.vault.process(note, (content) => content
+            .split(this.getRelativePath(notePath, plannedPath)).join(this.getRelativePath(notePath, sourcePath))
+            .split(plannedPath).join(sourcePath));
+    }
+
+    private async updateProvenanceSource(notePath: string, sourcePath: string) {
+        const note = this.vault.getAbstractFileByPath(notePath);
+        if (!(note instanceof TFile)) return;
+
+        await this.fileManager.processFrontMatter(note, (frontmatter) => {
+            // Notes shared by several sources, as in append mode, have no provenance
+            if (PROVENANCE_KEYS.source in frontmatter) {
+                frontmatter[PROVENANCE_KEYS.source] = `[[${sourcePath}]]`;
+            }
+        });
+    }
+
+    private toFailureResult(error: unknown): ProcessingResult {
+        if (isAbortError(error)) {
             return {
                 success: false,
-                error: error instanceof Error ? error.message : 'Unknown error'
+                cancelled: true,
+                error: 'Cancelled'
+            };
+        }
+        if (this.settings.debugMode) {
+            console.error('Error processing file:', error);
+        }
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            errorCategory: categorizeFailure(error)
+        };
+    }
+
+    /**
+     * Works out where each file's note would be written and where the file would
+     * be moved, without reading the files or calling the OCR provider. Values that
+     * are only known after transcription are shown as `{name}` placeholders.
+     */
+    planBatch(files: TFile[], options: ProcessingOptions = {}): PlannedFile[] {
+        const placeholdersByFile: StructuredResponse[] = [];
+        const plans = files.map(file => {
+            const settings = this.resolveSettings(file, options);
+            const placeholders: StructuredResponse = {
+                content: '',
+                extractedVariables: Object.fromEntries(
+                    settings.extractableVariables.map(variable => [variable.name, `{${variable.name}}`])
+                )
+            };
+            placeholdersByFile.push(placeholders);
+
+            const plan: PlannedFile = {
+                sourcePath: file.path,
+                outputPath: '',
+                insertsIntoExisting: settings.outputMode !== 'create',
+                warnings: [],
+                profileName: resolveProfile(this.settings, file.path, options.profileId)?.name
             };
+
+            try {
+                plan.outputPath = settings.outputMode === 'create'
+                    ? this.getNotePath(file, placeholders, settings)
+                    : this.getOutputPath(file, placeholders, settings);
+            } catch (error) {
+                plan.warnings.push(error instanceof Error ? error.message : String(error));
+            }
+
+            if (this.ledger?.hasPath(file.path) && !options.force) {
+                plan.warnings.push('Processed before; skipped if unchanged unless forced');
+            }
+            return plan;
+        });
+
+        const collision = this.settings.filenameCollision;
+        const collisionOutcome = {
+            counter: 'a number is added to the name',
+            secondsBase36: 'a time suffix is added to the name',
+            skip: 'the later file is skipped',
+            overwrite: 'the later file overwrites the note'
+        }[collision];
+
+        const pathCounts = new Map<string, number>();
+        for (const plan of plans) {
+            if (!plan.insertsIntoExisting && plan.outputPath) {
+                pathCounts.set(plan.outputPath, (pathCounts.get(plan.outputPath) ?? 0) + 1);
+            }
+        }
+        for (const plan of plans) {
+            if (plan.insertsIntoExisting || !plan.outputPath) continue;
+
+            const sharedWith = (pathCounts.get(plan.outputPath) ?? 1) - 1;
+            if (sharedWith > 0) {
+                const others = `${sharedWith} other file${sharedWith > 1 ? 's' : ''}`;
+                plan.warnings.push(/\{[^}]+\}/.test(plan.outputPath)
+                    ? `Same path as ${others} unless the extracted values differ; if they collide, ${collisionOutcome}`
+                    : `Same path as ${others}; ${collisionOutcome}`);
+            }
+            if (this.vault.getAbstractFileByPath(plan.outputPath)) {
+                if (collision === 'skip') {
+                    plan.warnings.push('A note already exists at this path; the file will be skipped');
+                } else if (collision === 'overwrite') {
+                    plan.warnings.push('A note already exists at this path and will be overwritten');
+                } else {
+                    const available = this.resolveCollision(plan.outputPath, this.settings);
+                    plan.warnings.push(`A note already exists at this path; it will be saved as ${available}`);
+                    plan.outputPath = available;
+                }
+            }
+        }
+
+        if (this.settings.moveFilesAfterProcessing) {
+            const planned = new Set<string>();
+            for (const [index, file] of files.entries()) {
+                const isTaken = (path: string) => planned.has(path) || this.vault.getAbstractFileByPath(path) !== null;
+                const destination = this.getMoveDestination(file, placeholdersByFile[index].extractedVariables, isTaken, '{timestamp}');
+                if (destination.includes('{timestamp}')) {
+                    plans[index].warnings.push('A file with this name is already in the processed folder; a timestamp is added');
+                }
+                plans[index].moveDestination = destination;
+                planned.add(destination);
+            }
         }
+
+        return plans;
     }
 
     async processBatch(
         files: TFile[], 
         progressCallback?: (progress: BatchProcessingProgress) => void,
-        resultCallback?: (file: TFile, result: ProcessingResult) => void
+        resultCallback?: (file: TFile, result: ProcessingResult) => void,
+        options: ProcessingOptions = {}
     ): Promise<Map<string, ProcessingResult>> {
         const results = new Map<string, ProcessingResult>();
         const workers = this.settings.concurrentWorkers;
@@ -108,6 +622,10 @@ export class FileProcessor {
         const processing = new Set<Promise<void>>();
 
         let completed = 0;
+        let budgetExceeded = false;
+
+        const jobQueue = options.jobQueue;
+        await jobQueue?.enqueue(files, { profileId: options.profileId, force: options.force, resume: options.resume });
 
         const processNext = async () => {
             const file = queue.shift();
@@ -119,7 +637,15 @@ export class FileProcessor {
                 currentFile: file.name
             });
 
-            const result = await this.processFile(file);
+            // Queued files keep the profile and force option they were queued with
+            const job = jobQueue?.get(file.path);
+            await jobQueue?.update(file.path, { state: 'running', error: undefined, errorCategory: undefined });
+            const result = await this.processFile(
+                file,
+                undefined,
+                job ? { ...options, profileId: job.profileId, force: job.force } : options
+            );
+            await jobQueue?.update(file.path, FileProcessor.toJobUpdate(result));
             results.set(file.path, result);
             completed++;
             
@@ -136,6 +662,16 @@ export class FileProcessor {
         for (let i = 0; i < Math.min(workers, files.length); i++) {
             const workerPromise = (async () => {
                 while (queue.length > 0) {
+                    try {
+                        // Wait here while paused; stop picking up files once cancelled
+                        await options.controller?.checkpoint();
+                    } catch (error) {
+                        break;
+                    }
+                    if (this.isOverBudget()) {
+                        budgetExceeded = true;
+                        break;
+                    }
                     await processNext();
                 }
             })();
@@ -145,35 +681,283 @@ export class FileProcessor {
         // Wait for all workers to complete
         await Promise.all(processing);
 
+        // Anything left in the queue was never started because the batch was cancelled
+        // or ran into the budget
+        for (const file of queue) {
+            const result: ProcessingResult = {
+                success: false,
+                cancelled: true,
+                notStarted: true,
+                budgetExceeded,
+                error: budgetExceeded ? 'Not started: monthly budget reached' : 'Not started'
+            };
+            await jobQueue?.update(file.path, FileProcessor.toJobUpdate(result));
+            results.set(file.path, result);
+            resultCallback?.(file, result);
+        }
+
         return results;
     }
 
-    private async createNote(sourceFile: TFile, result: StructuredResponse): Promise<string> {
+    private static toJobUpdate(result: ProcessingResult): Partial<Job> {
+        // Files held back by the budget are picked up again when the queue is resumed
+        if (result.budgetExceeded) {
+            return { state: 'pending' };
+        }
+        if (result.cancelled) {
+            return { state: 'cancelled' };
+        }
+        if (result.success || result.skipped) {
+            return { state: 'done', outputPath: result.filePath };
+        }
+        return { state: 'failed', error: result.error, errorCategory: result.errorCategory ?? 'other' };
+    }
+
+    /**
+     * Transcribes a file and adds the tokens used to the usage log.
+     */
+    private async transcribe(
+        file: TFile,
+        fileData: ArrayBuffer,
+        settings: HandwriteSettings,
+        progressCallback: ((progress: string) => void) | undefined,
+        options: ProcessingOptions
+    ): Promise<StructuredResponse> {
+        const result = await this.requestTranscription(file, fileData, settings, progressCallback, options);
+        if (result.usage) {
+            await this.usageLog?.record(result.usage, this.getCost(result.usage, settings) ?? 0);
+        }
+        return result;
+    }
+
+    private getCost(usage: TokenUsage | undefined, settings: HandwriteSettings): number | undefined {
+        if (!usage) return undefined;
+        return estimateCost(usage, this.getOcrProvider(settings).modelName, settings.tokenPrices);
+    }
+
+    /**
+     * Whether this month's estimated spend has reached the budget, if one is set.
+     */
+    isOverBudget(): boolean {
+        const budget = this.settings.monthlyBudget;
+        return budget > 0 && !!this.usageLog && this.usageLog.currentMonth.cost >= budget;
+    }
+
+    private async requestTranscription(
+        file: TFile,
+        fileData: ArrayBuffer,
+        settings: HandwriteSettings,
+        progressCallback: ((progress: string) => void) | undefined,
+        options: ProcessingOptions
+    ): Promise<StructuredResponse> {
+        const ocrProvider = this.getOcrProvider(settings);
+        progressCallback?.(`Processing with ${ocrProvider.displayName}...`);
+        const format = getFileFormat(file.extension);
+        if (!format) {
+            throw new Error(`Unsupported file type: ${file.extension}`);
+        }
+
+        if (format.openDocument) {
+            const document = await format.openDocument(fileData);
+            return this.transcribeDocument(document, format, fileData, settings, progressCallback, options);
+        }
+
+        const converted = format.convertImage
+            ? await format.convertImage(fileData)
+            : { data: new Uint8Array(fileData), mimeType: format.mimeType };
+        const image = await this.prepareImage(converted.data, converted.mimeType, settings);
+        const result = await this.requestSlots.run(async () => {
+            await options.controller?.checkpoint();
+            return ocrProvider.extractStructuredTextFromImage(
+                image.data,
+                image.mimeType,
+                settings.prompt,
+                settings.extractableVariables,
+                options.controller?.signal
+            );
+        });
+        return { ...result, pageCount: 1 };
+    }
+
+    /**
+     * Runs the preprocessing stage on an image when it is enabled. An image that
+     * can't be decoded is sent as it is.
+     */
+    private async prepareImage(data: Uint8Array, mimeType: string, settings: HandwriteSettings): Promise<PreprocessedImage> {
+        if (!settings.preprocessImages) {
+            return { data, mimeType };
+        }
+
+        let processed: PreprocessedImage;
+        try {
+            processed = await preprocessImage(data, mimeType, {
+                maxDimension: settings.preprocessMaxDimension,
+                grayscale: settings.preprocessGrayscale,
+                contrast: settings.preprocessContrast,
+                format: settings.preprocessFormat,
+                quality: settings.preprocessQuality
+            });
+        } catch (error) {
+            if (settings.debugMode) {
+                console.error('Image preprocessing failed, sending the original:', error);
+            }
+            return { data, mimeType };
+        }
+
+        await this.preprocessLog?.record(data.byteLength, processed.data.byteLength);
+        return processed;
+    }
+
+    /**
+     * Transcribes a multi-page document such as a PDF or TIFF page by page, and
+     * destroys it when done. PDFs can also be sent whole when page splitting is
+     * turned off.
+     */
+    private async transcribeDocument(
+        document: PagedDocument,
+        format: FileFormat,
+        fileData: ArrayBuffer,
+        settings: HandwriteSettings,
+        progressCallback: ((progress: string) => void) | undefined,
+        options: ProcessingOptions
+    ): Promise<StructuredResponse> {
+        const ocrProvider = this.getOcrProvider(settings);
+        const signal = options.controller?.signal;
+
+        try {
+            if (format.mimeType === 'application/pdf' && !settings.splitPdfPages) {
+                const result = await this.requestSlots.run(async () => {
+                    await options.controller?.checkpoint();
+                    return ocrProvider.extractStructuredTextFromPDF(
+                        new Uint8Array(fileData),
+                        settings.prompt,
+                        settings.extractableVariables,
+                        signal
+                    );
+                });
+                return { ...result, pageCount: document.pageCount };
+            }
+
+            let completed = 0;
+            const pageNumbers = Array.from({ length: document.pageCount }, (_, i) => i + 1);
+            const pages = await Promise.all(pageNumbers.map(async (pageNumber) => {
+                try {
+                    // Render inside the slot so only a few page images are held in memory at once
+                    const result = await this.requestSlots.run(async () => {
+                        await options.controller?.checkpoint();
+                        const image = await this.prepareImage(await document.renderPage(pageNumber), 'image/png', settings);
+                        return ocrProvider.extractStructuredTextFromImage(
+                            image.data,
+                            image.mimeType,
+                            settings.prompt,
+                            settings.extractableVariables,
+                            signal
+                        );
+                    });
+                    progressCallback?.(`Transcribed ${++completed} of ${document.pageCount} pages...`);
+                    return { pageNumber, result };
+                } catch (error) {
+                    // A cancelled page cancels the whole file rather than leaving a gap
+                    if (isAbortError(error)) throw error;
+                    if (settings.debugMode) {
+                        console.error(`Error processing page ${pageNumber}:`, error);
+                    }
+                    return { pageNumber, error: error instanceof Error ? error.message : String(error) };
+                }
+            }));
+
+            const failedPages = pages.filter(page => !page.result);
+            if (failedPages.length === pages.length) {
+                throw new Error(failedPages[0]?.error || 'Document has no pages');
+            }
+
+            // Separators alone don't count as extracted text
+            const hasText = pages.some(page => page.result?.content.trim());
+
+            // A separator with {{page}} marks every page, including the first; a plain
+            // one only goes between pages
+            const isPageMarker = /\{\{\s*page\s*\}\}/.test(settings.pageSeparator);
+
+            let content = '';
+            for (const page of pages) {
+                if (page.pageNumber > 1 || isPageMarker) {
+                    const separator = settings.pageSeparator
+                        .replace(/\{\{\s*page\s*\}\}/g, String(page.pageNumber))
+                        .replace(/\{\{\s*pageCount\s*\}\}/g, String(document.pageCount));
+                    content += content ? separator : separator.trimStart();
+                }
+                content += page.result
+                    ? page.result.content.trim()
+                    : `> [!warning] Page ${page.pageNumber} could not be transcribed\n> ${page.error}`;
+            }
+
+            return {
+                content: hasText ? content : '',
+                extractedVariables: this.mergePageVariables(
+                    pages.map(page => page.result?.extractedVariables || {})
+                ),
+                pageCount: document.pageCount,
+                retries: pages.reduce((total, page) => total + (page.result?.retries ?? 0), 0),
+                usage: pages.reduce<TokenUsage | undefined>((total, page) => addUsage(total, page.result?.usage), undefined),
+                failedPages: failedPages.length > 0 ? failedPages.map(page => page.pageNumber) : undefined
+            };
+        } finally {
+            await document.destroy();
+        }
+    }
+
+    private mergePageVariables(pageVariables: Record<string, unknown>[]): Record<string, unknown> {
+        const merged: Record<string, unknown> = {};
+
+        for (const variables of pageVariables) {
+            for (const [key, value] of Object.entries(variables)) {
+                if (Array.isArray(value)) {
+                    // Collect array items from every page, without duplicates
+                    const current = merged[key];
+                    const existing: unknown[] = Array.isArray(current) ? current : [];
+                    const seen = new Set(existing.map(item => JSON.stringify(item)));
+                    merged[key] = [...existing, ...value.filter(item => !seen.has(JSON.stringify(item)))];
+                } else if (merged[key] === undefined || merged[key] === '' || merged[key] === null) {
+                    // Scalars take the first page that has a value
+                    merged[key] = value;
+                }
+            }
+        }
+
+        return merged;
+    }
+
+    getOutputFilename(sourceFile: TFile, result: StructuredResponse, settings = this.settings): string {
         // Generate filename using extracted variables only
-        const allVariables = result.extractedVariables;
-        
-        const outputFilename = TemplateRenderer.generateFilename(
-            this.settings.filenameTemplate,
+        return TemplateRenderer.generateFilename(
+            settings.filenameTemplate,
             sourceFile.basename,
-            allVariables
+            result.extractedVariables,
+            settings.maxFilenameLength
         );
+    }
 
-        // Ensure output folder exists
-        const outputFolder = normalizePath(this.settings.outputFolder);
-        const folder = this.vault.getAbstractFileByPath(outputFolder);
-        if (!folder) {
-            await this.vault.createFolder(outputFolder);
-        }
-
-        const outputPath = normalizePath(`${outputFolder}/${outputFilename}`);
+    /**
+     * Renders the note for a transcription without writing it, so it can be previewed.
+     * In append, prepend and daily-note modes the content is the section that will be
+     * inserted into the target note. `moveDestination` is where the source file will
+     * be moved, if that has already been decided.
+     */
+    renderNote(
+        sourceFile: TFile,
+        result: StructuredResponse,
+        outputFilename?: string,
+        settings = this.settings,
+        moveDestination?: string
+    ): NoteDraft {
+        const outputPath = this.getOutputPath(sourceFile, result, settings, outputFilename);
 
         // Calculate the future path of the source file if it will be moved
         let futureSourcePath = sourceFile.path;
         let markdownLink: string;
         
-        if (this.settings.moveFilesAfterProcessing) {
-            const processedFolder = normalizePath(this.settings.processedFilesFolder);
-            futureSourcePath = normalizePath(`${processedFolder}/${sourceFile.name}`);
+        if (settings.moveFilesAfterProcessing) {
+            futureSourcePath = moveDestination ?? this.getMoveDestination(sourceFile, result.extractedVariables);
             // Generate the markdown link manually for the future location
             const relativePath = this.getRelativePath(outputPath, futureSourcePath);
             markdownLink = `[[${relativePath}|${sourceFile.basename}]]`;
@@ -181,10 +965,22 @@ export class FileProcessor {
             // Use the standard method for files that won't be moved
             markdownLink = this.fileManager.generateMarkdownLink(sourceFile, outputPath);
         }
-        
+
+        const content = this.renderContent(sourceFile, result, settings, futureSourcePath, markdownLink);
+        // Mark the body of created notes so the transcription can be refreshed later
+        return { outputPath, content: settings.outputMode === 'create' ? wrapNoteBody(content) : content };
+    }
+
+    private renderContent(
+        sourceFile: TFile,
+        result: StructuredResponse,
+        settings: HandwriteSettings,
+        sourcePath: string,
+        markdownLink: string
+    ): string {
         // Merge extracted tags with default tags
         const extractedTags = result.extractedVariables.tags || [];
-        const allTags = this.mergeTagsWithDefaults(extractedTags);
+        const allTags = this.mergeTagsWithDefaults(extractedTags, settings);
         
         // Update the extractedVariables with merged tags
         const mergedExtractedVariables = {
@@ -197,30 +993,150 @@ export class FileProcessor {
             result.content,
             allTags,
             sourceFile.basename,
-            futureSourcePath,
+            sourcePath,
             markdownLink,
-            1, // For now, we don't track page count in Obsidian
-            this.settings.geminiModel,
+            result.pageCount ?? 1,
+            this.getOcrProvider(settings).modelName,
+            result.usage ? result.usage.inputTokens + result.usage.outputTokens : 0,
             {},
             mergedExtractedVariables
         );
 
-        // Render content
-        const content = TemplateRenderer.renderTemplate(
-            this.settings.templateContent,
+        return TemplateRenderer.renderTemplate(
+            settings.outputMode === 'create' ? settings.templateContent : settings.sectionTemplate,
             templateData
         );
+    }
+
+    private getOutputPath(sourceFile: TFile, result: StructuredResponse, settings: HandwriteSettings, outputFilename?: string): string {
+        switch (settings.outputMode) {
+            case 'append':
+            case 'prepend': {
+                const target = settings.targetNotePath.trim();
+                if (!target) {
+                    throw new Error('No target note is set for the append/prepend output mode');
+                }
+                return normalizePath(target.endsWith('.md') ? target : `${target}.md`);
+            }
+            case 'daily-note':
+                return getDailyNotePath(this.app);
+            default:
+                return this.resolveCollision(this.getNotePath(sourceFile, result, settings, outputFilename), settings);
+        }
+    }
+
+    /**
+     * Path of a created note before collisions with existing files are handled.
+     */
+    private getNotePath(sourceFile: TFile, result: StructuredResponse, settings: HandwriteSettings, outputFilename?: string): string {
+        // Names edited during review are cleaned like generated ones
+        const filename = TemplateRenderer.cleanFilename(
+            outputFilename ?? this.getOutputFilename(sourceFile, result, settings),
+            sourceFile.basename,
+            settings.maxFilenameLength
+        );
+        const outputFolder = this.renderFolder(settings.outputFolder, sourceFile, result.extractedVariables, settings);
+        return normalizePath(`${outputFolder}/${filename}`);
+    }
+
+    /**
+     * Applies the filename collision setting to a path that may be taken. With
+     * `skip` and `overwrite` the path is kept and the caller decides what to do.
+     */
+    private resolveCollision(path: string, settings: HandwriteSettings): string {
+        if (settings.filenameCollision !== 'secondsBase36' || !this.vault.getAbstractFileByPath(path)) {
+            return settings.filenameCollision === 'counter' ? this.getAvailablePath(path) : path;
+        }
 
-        // Create or modify the file
-        const existingFile = this.vault.getAbstractFileByPath(outputPath);
-        if (existingFile instanceof TFile) {
-            await this.vault.process(existingFile, () => content);
+        const extension = path.match(/\.[^./]+$/)?.[0] || '';
+        const base = path.slice(0, path.length - extension.length);
+        // Files processed within the same second still get a counter
+        return this.getAvailablePath(`${base} ${TemplateRenderer.secondsBase36()}${extension}`);
+    }
+
+    /**
+     * Adds a counter to the filename ("Note 1.md", "Note 2.md") if a file already exists at the path.
+     */
+    private getAvailablePath(path: string): string {
+        if (!this.vault.getAbstractFileByPath(path)) return path;
+
+        const extension = path.match(/\.[^./]+$/)?.[0] || '';
+        const base = path.slice(0, path.length - extension.length);
+        let counter = 1;
+        while (this.vault.getAbstractFileByPath(`${base} ${counter}${extension}`)) {
+            counter++;
+        }
+        return `${base} ${counter}${extension}`;
+    }
+
+    /**
+     * Creates the folders of a path that don't exist yet, one level at a time.
+     */
+    private async ensureFolder(path: string) {
+        const folders = path.split('/').slice(0, -1);
+        for (let depth = 1; depth <= folders.length; depth++) {
+            const folderPath = folders.slice(0, depth).join('/');
+            if (this.vault.getAbstractFileByPath(folderPath)) continue;
+            try {
+                await this.vault.createFolder(folderPath);
+            } catch (error) {
+                // Another worker created it first
+                if (!this.vault.getAbstractFileByPath(folderPath)) throw error;
+            }
+        }
+    }
+
+    private async createNote(
+        sourceFile: TFile,
+        result: StructuredResponse,
+        settings: HandwriteSettings,
+        outputFilename?: string,
+        moveDestination?: string
+    ): Promise<string> {
+        let { outputPath, content } = this.renderNote(sourceFile, result, outputFilename, settings, moveDestination);
+        await this.ensureFolder(outputPath);
+
+        if (settings.outputMode === 'create') {
+            // Another worker may have taken the name while the folder was created
+            for (let attempt = 0; ; attempt++) {
+                const existing = this.vault.getAbstractFileByPath(outputPath);
+                try {
+                    if (existing instanceof TFile && settings.filenameCollision === 'overwrite') {
+                        await this.vault.modify(existing, content);
+                    } else {
+                        await this.vault.create(outputPath, content);
+                    }
+                    break;
+                } catch (error) {
+                    if (attempt >= 5 || !this.vault.getAbstractFileByPath(outputPath)) throw error;
+                    ({ outputPath, content } = this.renderNote(sourceFile, result, outputFilename, settings, moveDestination));
+                }
+            }
         } else {
-            await this.vault.create(outputPath, content);
+            const position = settings.outputMode === 'prepend' ? 'prepend' : 'append';
+            let targetFile = this.vault.getAbstractFileByPath(outputPath);
+            if (!targetFile) {
+                const initialContent = settings.outputMode === 'daily-note'
+                    ? await getDailyNoteTemplate(this.app, outputPath.slice(outputPath.lastIndexOf('/') + 1).replace(/\.md$/, ''))
+                    : '';
+                try {
+                    targetFile = await this.vault.create(outputPath, initialContent);
+                } catch (error) {
+                    // Another worker created the note first
+                    targetFile = this.vault.getAbstractFileByPath(outputPath);
+                    if (!targetFile) throw error;
+                }
+            }
+            if (!(targetFile instanceof TFile)) {
+                throw new Error(`Target note ${outputPath} is not a file`);
+            }
+            await this.vault.process(targetFile, (existing) =>
+                insertSection(existing, content, position, settings.targetHeading)
+            );
         }
 
         // Auto-open the created note if enabled
-        if (this.settings.autoOpenCreatedNotes) {
+        if (settings.autoOpenCreatedNotes) {
             const createdFile = this.vault.getAbstractFileByPath(outputPath);
             if (createdFile instanceof TFile) {
                 // Open in a new leaf (tab/pane)
@@ -231,9 +1147,9 @@ export class FileProcessor {
         return outputPath;
     }
 
-    private mergeTagsWithDefaults(extractedTags: any): string[] {
+    private mergeTagsWithDefaults(extractedTags: unknown, settings: HandwriteSettings): string[] {
         // Ensure extractedTags is an array
-        let tags: string[] = [];
+        let tags: unknown[] = [];
         
         if (Array.isArray(extractedTags)) {
             tags = extractedTags;
@@ -243,7 +1159,7 @@ export class FileProcessor {
         }
         
         // Merge with default tags, avoiding duplicates
-        const allTags = [...this.settings.defaultTags];
+        const allTags = [...settings.defaultTags];
         
         for (const tag of tags) {
             if (typeof tag === 'string' && tag.trim() && !allTags.includes(tag)) {
@@ -283,62 +1199,61 @@ export class FileProcessor {
         return relativeParts.join('/') || '.';
     }
 
-    private async moveSourceFile(file: TFile): Promise<void> {
-        try {
-            // Ensure processed folder exists
-            const processedFolder = normalizePath(this.settings.processedFilesFolder);
-            const folder = this.vault.getAbstractFileByPath(processedFolder);
-            if (!folder) {
-                await this.vault.createFolder(processedFolder);
-            }
+    /**
+     * Renders a folder setting that may contain template variables, falling back
+     * to the fallback folder when a value is missing.
+     */
+    private renderFolder(template: string, sourceFile: TFile, variables: Record<string, unknown>, settings: HandwriteSettings): string {
+        return normalizePath(TemplateRenderer.renderFolder(
+            template,
+            sourceFile.basename,
+            variables,
+            settings.fallbackFolder,
+            settings.maxFilenameLength
+        ));
+    }
 
-            // Generate new path for the file
-            const newPath = normalizePath(`${processedFolder}/${file.name}`);
-            
-            // Check if a file already exists at the destination
-            const existingFile = this.vault.getAbstractFileByPath(newPath);
-            if (existingFile) {
-                // If file exists, add a timestamp to make it unique
-                const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-                const nameWithoutExt = file.basename;
-                const ext = file.extension;
-                const uniquePath = normalizePath(`${processedFolder}/${nameWithoutExt}_${timestamp}.${ext}`);
-                await this.fileManager.renameFile(file, uniquePath);
-            } else {
-                // Move the file
-                await this.fileManager.renameFile(file, newPath);
-            }
+    /**
+     * Path a source file is moved to after processing. A timestamp is added to the
+     * name if a file with the same name is already in the processed folder, or is
+     * about to be moved there.
+     */
+    private getMoveDestination(
+        file: TFile,
+        variables: Record<string, unknown>,
+        isTaken = (path: string) => this.reservedDestinations.has(path) || this.vault.getAbstractFileByPath(path) !== null,
+        timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    ): string {
+        const processedFolder = this.renderFolder(this.settings.processedFilesFolder, file, variables, this.settings);
+        const newPath = normalizePath(`${processedFolder}/${file.name}`);
+        if (!isTaken(newPath)) {
+            return newPath;
+        }
+        return normalizePath(`${processedFolder}/${file.basename}_${timestamp}.${file.extension}`);
+    }
+
+    private async moveSourceFile(file: TFile, destination: string, variables: Record<string, unknown>): Promise<string> {
+        try {
+            // Reserved destinations can still be taken by files added outside the batch
+            const newPath = this.vault.getAbstractFileByPath(destination)
+                ? this.getMoveDestination(file, variables)
+                : destination;
+            await this.ensureFolder(newPath);
+            await this.fileManager.renameFile(file, newPath);
+            return newPath;
         } catch (error) {
             if (this.settings.debugMode) {
                 console.error('Error moving file:', error);
             }
-            throw new Error(`Failed to move file: ${error.message}`);
+            throw new ProcessingError('move-failed', `Failed to move file: ${error.message}`);
         }
     }
 
-    private isSupportedFile(extension: string): boolean {
-        const supported = ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'gif'];
-        return supported.includes(extension.toLowerCase());
-    }
-
-    private getMimeType(extension: string): string {
-        const mimeTypes: Record<string, string> = {
-            'png': 'image/png',
-            'jpg': 'image/jpeg',
-            'jpeg': 'image/jpeg',
-            'webp': 'image/webp',
-            'gif': 'image/gif'
-        };
-        return mimeTypes[extension.toLowerCase()] || 'image/jpeg';
-    }
-
     static getSupportedFiles(folder: TFolder, vault: Vault): TFile[] {
-        const supportedExtensions = ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'gif'];
-        
         // Use the vault's cached file list for much better performance
         return vault.getFiles().filter(file => 
             file.path.startsWith(folder.path + '/') && // Ensure file is within the target folder
-            supportedExtensions.includes(file.extension.toLowerCase())
+            isSupportedExtension(file.extension)
         );
     }
 }
\ No newline at end of file
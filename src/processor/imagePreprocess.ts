@@ -0,0 +1,116 @@
+export type PreprocessFormat = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessOptions {
+    // Longest side in pixels after scaling; 0 keeps the original size
+    maxDimension: number;
+    grayscale: boolean;
+    // Contrast in percent, 100 leaves it unchanged
+    contrast: number;
+    format: PreprocessFormat;
+    // Encoder quality in percent
+    quality: number;
+}
+
+export interface PreprocessStats {
+    files: number;
+    originalBytes: number;
+    processedBytes: number;
+}
+
+/**
+ * Totals of preprocessed uploads, shown in the settings. Saved whenever an image
+ * is added, however it was transcribed.
+ */
+export class PreprocessLog {
+    private stats: PreprocessStats;
+    private onChange: () => Promise<void>;
+
+    constructor(data: PreprocessStats | undefined, onChange: () => Promise<void>) {
+        this.stats = { files: 0, originalBytes: 0, processedBytes: 0, ...(data || {}) };
+        this.onChange = onChange;
+    }
+
+    async record(originalBytes: number, processedBytes: number): Promise<void> {
+        this.stats = {
+            files: this.stats.files + 1,
+            originalBytes: this.stats.originalBytes + originalBytes,
+            processedBytes: this.stats.processedBytes + processedBytes
+        };
+        await this.onChange();
+    }
+
+    get totals(): PreprocessStats {
+        return this.stats;
+    }
+
+    async clear(): Promise<void> {
+        this.stats = { files: 0, originalBytes: 0, processedBytes: 0 };
+        await this.onChange();
+    }
+
+    toJSON(): PreprocessStats {
+        return this.stats;
+    }
+}
+
+export interface PreprocessedImage {
+    data: Uint8Array;
+    mimeType: string;
+}
+
+/**
+ * Prepares an image for upload: applies its EXIF orientation, scales it down to
+ * the maximum dimension, optionally converts it to grayscale or boosts contrast,
+ * and re-encodes it. The original is returned when re-encoding alone would only
+ * make it larger.
+ */
+export async function preprocessImage(data: Uint8Array, mimeType: string, options: PreprocessOptions): Promise<PreprocessedImage> {
+    // 'from-image' is newer than the DOM typings, which only know 'none' and 'flipY'
+    const bitmapOptions = { imageOrientation: 'from-image' } as unknown as ImageBitmapOptions;
+    const bitmap = await createImageBitmap(new Blob([data], { type: mimeType }), bitmapOptions);
+
+    try {
+        const longestSide = Math.max(bitmap.width, bitmap.height);
+        const scale = options.maxDimension > 0 && longestSide > options.maxDimension
+            ? options.maxDimension / longestSide
+            : 1;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Failed to create canvas for image preprocessing');
+        }
+
+        const filters: string[] = [];
+        if (options.grayscale) filters.push('grayscale(1)');
+        if (options.contrast !== 100) filters.push(`contrast(${options.contrast}%)`);
+        if (filters.length > 0) context.filter = filters.join(' ');
+
+        // JPEG has no alpha channel, so transparent areas would otherwise turn black
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, options.format, options.quality / 100));
+        if (!blob) {
+            throw new Error('Failed to encode preprocessed image');
+        }
+
+        const processed = new Uint8Array(await blob.arrayBuffer());
+        const changed = scale < 1 || filters.length > 0;
+        if (!changed && processed.byteLength >= data.byteLength) {
+            return { data, mimeType };
+        }
+        return { data: processed, mimeType: options.format };
+    } finally {
+        bitmap.close();
+    }
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
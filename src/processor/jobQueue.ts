@@ -0,0 +1,122 @@
+import { Events, TFile } from 'obsidian';
+import { FailureCategory } from './failureReport';
+
+// Cancelled jobs are kept for reference but not offered for resuming
+export type JobState = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Job {
+    sourcePath: string;
+    state: JobState;
+    // Options the file was queued with, reused when it is resumed or retried
+    profileId?: string;
+    force?: boolean;
+    outputPath?: string;
+    error?: string;
+    errorCategory?: FailureCategory;
+    updatedAt: string;
+}
+
+export type JobQueueData = Job[];
+
+/**
+ * Files queued for processing and how far each got, saved in the plugin data so
+ * unfinished work can be resumed after Obsidian restarts. Each source path has at
+ * most one job. Triggers `changed` whenever a job is added or updated.
+ */
+export class JobQueue extends Events {
+    private jobs: Map<string, Job>;
+    private onChange: () => Promise<void>;
+
+    constructor(data: JobQueueData | undefined, onChange: () => Promise<void>) {
+        super();
+        // Jobs that were running when Obsidian closed never finished
+        this.jobs = new Map((data || []).map(job => [
+            job.sourcePath,
+            job.state === 'running' ? { ...job, state: 'pending' } : job
+        ]));
+        this.onChange = onChange;
+    }
+
+    get(sourcePath: string): Job | undefined {
+        return this.jobs.get(sourcePath);
+    }
+
+    all(): Job[] {
+        return Array.from(this.jobs.values());
+    }
+
+    withState(...states: JobState[]): Job[] {
+        return this.all().filter(job => states.includes(job.state));
+    }
+
+    /**
+     * Queues files as pending with the options of the batch. When resuming, files
+     * that already have an unfinished job keep its options unless new ones are given.
+     */
+    async enqueue(files: TFile[], options: { profileId?: string; force?: boolean; resume?: boolean } = {}): Promise<void> {
+        for (const file of files) {
+            const existing = this.jobs.get(file.path);
+            const keepOptions = options.resume && existing && existing.state !== 'done';
+            this.jobs.set(file.path, {
+                sourcePath: file.path,
+                state: 'pending',
+                profileId: options.profileId ?? (keepOptions ? existing.profileId : undefined),
+                force: options.force ?? (keepOptions ? existing.force : undefined),
+                updatedAt: new Date().toISOString()
+            });
+        }
+        await this.changed();
+    }
+
+    async update(sourcePath: string, changes: Partial<Omit<Job, 'sourcePath'>>): Promise<void> {
+        const job = this.jobs.get(sourcePath);
+        if (!job) return;
+
+        this.jobs.set(sourcePath, { ...job, ...changes, updatedAt: new Date().toISOString() });
+        await this.changed();
+    }
+
+    async remove(sourcePaths: string[]): Promise<void> {
+        sourcePaths.forEach(path => this.jobs.delete(path));
+        await this.changed();
+    }
+
+    async clearFinished(): Promise<void> {
+        await this.remove(this.withState('done', 'cancelled').map(job => job.sourcePath));
+    }
+
+    /**
+     * Follows a file or folder rename so queued jobs still find their files and notes.
+     */
+    async renamePath(oldPath: string, newPath: string): Promise<void> {
+        const rename = (path: string) => {
+            if (path === oldPath) return newPath;
+            if (path.startsWith(oldPath + '/')) return newPath + path.slice(oldPath.length);
+            return path;
+        };
+
+        let changed = false;
+        const jobs = new Map<string, Job>();
+        for (const job of this.jobs.values()) {
+            const sourcePath = rename(job.sourcePath);
+            const outputPath = job.outputPath === undefined ? undefined : rename(job.outputPath);
+
+            changed = changed || sourcePath !== job.sourcePath || outputPath !== job.outputPath;
+            jobs.set(sourcePath, { ...job, sourcePath, outputPath });
+        }
+
+        if (changed) {
+            this.jobs = jobs;
+            await this.changed();
+        }
+    }
+
+    private async changed(): Promise<void> {
+        this.trigger('changed');
+        await this.onChange();
+    }
+
+    toJSON(): JobQueueData {
+        return this.all();
+    }
+}
@@ -0,0 +1,99 @@
+export interface LedgerEntry {
+    sourcePath: string;
+    contentHash: string;
+    outputPath: string;
+    model: string;
+    processedAt: string;
+    // Where the source is still to be moved, set until the move succeeds
+    moveDestination?: string;
+}
+
+export type LedgerData = Record<string, LedgerEntry>;
+
+export class ProcessingLedger {
+    private entries: LedgerData;
+    private onChange: () => Promise<void>;
+
+    constructor(data: LedgerData | undefined, onChange: () => Promise<void>) {
+        this.entries = { ...(data || {}) };
+        this.onChange = onChange;
+    }
+
+    static async hashContent(data: ArrayBuffer): Promise<string> {
+        const digest = await crypto.subtle.digest('SHA-256', data);
+        return Array.from(new Uint8Array(digest))
+            .map(byte => byte.toString(16).padStart(2, '0'))
+            .join('');
+    }
+
+    private static key(path: string, contentHash: string): string {
+        return `${contentHash}:${path}`;
+    }
+
+    get(path: string, contentHash: string): LedgerEntry | undefined {
+        return this.entries[ProcessingLedger.key(path, contentHash)];
+    }
+
+    hasPath(path: string): boolean {
+        return Object.values(this.entries).some(entry => entry.sourcePath === path);
+    }
+
+    /**
+     * Finds the entry for the note a source was transcribed to.
+     */
+    findByOutput(outputPath: string): LedgerEntry | undefined {
+        return Object.values(this.entries).find(entry => entry.outputPath === outputPath);
+    }
+
+    findBySource(sourcePath: string): LedgerEntry | undefined {
+        return Object.values(this.entries).find(entry => entry.sourcePath === sourcePath);
+    }
+
+    async record(entry: LedgerEntry): Promise<void> {
+        // A path only keeps the entry for its latest content
+        for (const [key, existing] of Object.entries(this.entries)) {
+            if (existing.sourcePath === entry.sourcePath) {
+                delete this.entries[key];
+            }
+        }
+        this.entries[ProcessingLedger.key(entry.sourcePath, entry.contentHash)] = entry;
+        await this.onChange();
+    }
+
+    /**
+     * Follows a file or folder rename so entries keep pointing at the right files.
+     */
+    async renamePath(oldPath: string, newPath: string): Promise<void> {
+        const rename = (path: string) => {
+            if (path === oldPath) return newPath;
+            if (path.startsWith(oldPath + '/')) return newPath + path.slice(oldPath.length);
+            return path;
+        };
+
+        let changed = false;
+        const entries: LedgerData = {};
+        for (const entry of Object.values(this.entries)) {
+            const updated = { ...entry, sourcePath: rename(entry.sourcePath), outputPath: rename(entry.outputPath) };
+            changed = changed || updated.sourcePath !== entry.sourcePath || updated.outputPath !== entry.outputPath;
+            entries[ProcessingLedger.key(updated.sourcePath, updated.contentHash)] = updated;
+        }
+
+        if (changed) {
+            this.entries = entries;
+            await this.onChange();
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.entries = {};
+        await this.onChange();
+    }
+
+    get size(): number {
+        return Object.keys(this.entries).length;
+    }
+
+    toJSON(): LedgerData {
+        return this.entries;
+    }
+}
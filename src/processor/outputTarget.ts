@@ -0,0 +1,164 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+
+export type OutputMode = 'create' | 'append' | 'prepend' | 'daily-note';
+
+// What happens when a created note's path is already taken
+export type FilenameCollision = 'counter' | 'secondsBase36' | 'skip' | 'overwrite';
+
+interface DailyNoteOptions {
+    folder?: string;
+    format?: string;
+    template?: string;
+}
+
+// Core plugin options aren't part of the public API
+interface InternalPlugins {
+    internalPlugins?: {
+        getPluginById?: (id: string) => { instance?: { options?: DailyNoteOptions } } | null | undefined;
+    };
+}
+
+const DEFAULT_DAILY_NOTE_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * Reads the options of the core Daily Notes plugin. Falls back to its defaults
+ * when the plugin is disabled or hasn't been configured.
+ */
+function getDailyNoteOptions(app: App): DailyNoteOptions {
+    const dailyNotes = (app as App & InternalPlugins).internalPlugins?.getPluginById?.('daily-notes');
+    return dailyNotes?.instance?.options ?? {};
+}
+
+export function getDailyNotePath(app: App, date = moment()): string {
+    const { folder, format } = getDailyNoteOptions(app);
+    const filename = date.format(format || DEFAULT_DAILY_NOTE_FORMAT);
+    return normalizePath(folder ? `${folder}/${filename}.md` : `${filename}.md`);
+}
+
+/**
+ * Content for a new daily note, based on the Daily Notes template if one is set.
+ * Supports the core plugin's `{{date}}`, `{{time}}` and `{{title}}` placeholders,
+ * including custom formats such as `{{date:dddd}}`.
+ */
+export async function getDailyNoteTemplate(app: App, title: string, date = moment()): Promise<string> {
+    const { template, format } = getDailyNoteOptions(app);
+    if (!template?.trim()) return '';
+
+    const templatePath = normalizePath(template.endsWith('.md') ? template : `${template}.md`);
+    const templateFile = app.vault.getAbstractFileByPath(templatePath);
+    if (!(templateFile instanceof TFile)) return '';
+
+    const content = await app.vault.cachedRead(templateFile);
+    return content
+        .replace(/\{\{\s*date\s*(?::(.*?))?\}\}/gi, (_, dateFormat) => date.format(dateFormat?.trim() || format || DEFAULT_DAILY_NOTE_FORMAT))
+        .replace(/\{\{\s*time\s*(?::(.*?))?\}\}/gi, (_, timeFormat) => date.format(timeFormat?.trim() || 'HH:mm'))
+        .replace(/\{\{\s*title\s*\}\}/gi, title);
+}
+
+/**
+ * Inserts a section into existing note content. With a heading, the section is
+ * added at the end (append) or start (prepend) of that heading's section, and the
+ * heading is created at the end of the note if it doesn't exist yet. Without one,
+ * the section goes at the end of the note or right after its frontmatter.
+ */
+export function insertSection(note: string, section: string, position: 'append' | 'prepend', heading = ''): string {
+    const lines = note.split('\n');
+    const sectionLines = section.trim().split('\n');
+    const headingText = heading.replace(/^#+\s*/, '').trim();
+
+    if (!headingText) {
+        const start = position === 'prepend' ? frontmatterEnd(lines) : lines.length;
+        return spliceSection(lines, start, sectionLines);
+    }
+
+    const headingIndex = lines.findIndex(line => {
+        const match = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        return match !== null && match[2] === headingText;
+    });
+
+    if (headingIndex === -1) {
+        const headingLine = /^#+\s/.test(heading.trim()) ? heading.trim() : `## ${headingText}`;
+        return spliceSection(lines, lines.length, [headingLine, '', ...sectionLines]);
+    }
+
+    if (position === 'prepend') {
+        return spliceSection(lines, headingIndex + 1, sectionLines);
+    }
+
+    // The section ends at the next heading of the same or a higher level
+    const level = lines[headingIndex].match(/^#+/)?.[0].length ?? 0;
+    let end = headingIndex + 1;
+    while (end < lines.length) {
+        const match = lines[end].match(/^(#{1,6})\s/);
+        if (match && match[1].length <= level) break;
+        end++;
+    }
+    return spliceSection(lines, end, sectionLines);
+}
+
+function frontmatterEnd(lines: string[]): number {
+    if (lines[0]?.trim() !== '---') return 0;
+    const closing = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    return closing === -1 ? 0 : closing + 1;
+}
+
+/**
+ * Inserts lines at an index, keeping exactly one blank line between the new
+ * section and the content around it.
+ */
+function spliceSection(lines: string[], index: number, sectionLines: string[]): string {
+    const before = lines.slice(0, index);
+    const after = lines.slice(index);
+
+    while (before.length > 0 && before[before.length - 1].trim() === '') before.pop();
+    while (after.length > 0 && after[0].trim() === '') after.shift();
+
+    const result = [...before];
+    if (before.length > 0) result.push('');
+    result.push(...sectionLines);
+    if (after.length > 0) result.push('', ...after);
+    else result.push('');
+
+    return result.join('\n');
+}
+
+// Obsidian comments, hidden in reading view, that mark the transcription in a created note
+const TRANSCRIPTION_START = '%% handwrite:start %%';
+const TRANSCRIPTION_END = '%% handwrite:end %%';
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---(?=\r?\n|$)/;
+
+export function wrapTranscription(content: string): string {
+    return `${TRANSCRIPTION_START}\n${content}\n${TRANSCRIPTION_END}`;
+}
+
+/**
+ * Splits a rendered note into its frontmatter block (empty if there is none) and
+ * the body below it.
+ */
+export function splitFrontmatter(note: string): { frontmatter: string; body: string } {
+    const frontmatter = note.match(FRONTMATTER_PATTERN)?.[0] ?? '';
+    return { frontmatter, body: note.slice(frontmatter.length).replace(/^\r?\n/, '').replace(/\s+$/, '') };
+}
+
+/**
+ * Marks the body of a rendered note, everything below the frontmatter, as the
+ * transcription, so it can be rendered again later without touching the rest.
+ */
+export function wrapNoteBody(note: string): string {
+    const { frontmatter, body } = splitFrontmatter(note);
+    return `${frontmatter ? frontmatter + '\n' : ''}${wrapTranscription(body)}\n`;
+}
+
+/**
+ * Replaces the text between the transcription markers, leaving everything around
+ * them untouched. Returns null if the note has no (or more than one) marked region.
+ */
+export function replaceTranscription(note: string, content: string): string | null {
+    const start = note.indexOf(TRANSCRIPTION_START);
+    const end = note.indexOf(TRANSCRIPTION_END, start);
+    if (start === -1 || end === -1 || note.indexOf(TRANSCRIPTION_START, start + 1) !== -1) {
+        return null;
+    }
+    return note.slice(0, start) + wrapTranscription(content) + note.slice(end + TRANSCRIPTION_END.length);
+}
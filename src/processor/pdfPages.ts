@@ -0,0 +1,39 @@
+import { loadPdfJs } from 'obsidian';
+import { PagedDocument } from '../formats/registry';
+
+// Roughly 144 DPI, enough for handwriting without producing huge uploads
+const RENDER_SCALE = 2;
+
+export async function openPdf(data: ArrayBuffer): Promise<PagedDocument> {
+    const pdfjs = await loadPdfJs();
+    // pdf.js takes ownership of the buffer, so hand it a copy
+    const doc = await pdfjs.getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+
+    return {
+        pageCount: doc.numPages,
+        renderPage: async (pageNumber: number) => {
+            const page = await doc.getPage(pageNumber);
+            const viewport = page.getViewport({ scale: RENDER_SCALE });
+
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(viewport.width);
+            canvas.height = Math.ceil(viewport.height);
+            const context = canvas.getContext('2d');
+            if (!context) {
+                throw new Error('Failed to create canvas for PDF page');
+            }
+
+            await page.render({ canvasContext: context, viewport }).promise;
+            page.cleanup();
+
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+            if (!blob) {
+                throw new Error(`Failed to render page ${pageNumber}`);
+            }
+            return new Uint8Array(await blob.arrayBuffer());
+        },
+        destroy: async () => {
+            await doc.destroy();
+        }
+    };
+}
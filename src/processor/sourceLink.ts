@@ -0,0 +1,61 @@
+import { App, TFile } from 'obsidian';
+import { ProcessingLedger } from './ledger';
+import { PROVENANCE_KEYS } from './fileProcessor';
+import { isSupportedExtension } from '../formats/registry';
+
+/**
+ * Finds the image or PDF a note was transcribed from: through the processing
+ * ledger, or else through the note's `handwrite-source` provenance field. Other
+ * links and embeds in the note aren't followed, as they needn't be its source.
+ */
+export function findSourceFile(app: App, ledger: ProcessingLedger, note: TFile): TFile | null {
+    const entry = ledger.findByOutput(note.path);
+    if (entry) {
+        const source = app.vault.getAbstractFileByPath(entry.sourcePath);
+        if (source instanceof TFile) return source;
+    }
+
+    for (const link of getProvenanceLinks(app, note)) {
+        const target = app.metadataCache.getFirstLinkpathDest(link, note.path);
+        if (target && isSupportedExtension(target.extension)) {
+            return target;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Finds the note a source file was transcribed to: through the processing
+ * ledger, or else the note whose `handwrite-source` field links to the file.
+ * Only notes that link to the file are checked, going by the resolved links in
+ * the metadata cache.
+ */
+export function findTranscription(app: App, ledger: ProcessingLedger, source: TFile): TFile | null {
+    const entry = ledger.findBySource(source.path);
+    if (entry) {
+        const note = app.vault.getAbstractFileByPath(entry.outputPath);
+        if (note instanceof TFile) return note;
+    }
+
+    for (const [notePath, targets] of Object.entries(app.metadataCache.resolvedLinks)) {
+        if (!(source.path in targets)) continue;
+
+        const note = app.vault.getAbstractFileByPath(notePath);
+        if (!(note instanceof TFile)) continue;
+        for (const link of getProvenanceLinks(app, note)) {
+            if (app.metadataCache.getFirstLinkpathDest(link, note.path) === source) {
+                return note;
+            }
+        }
+    }
+
+    return null;
+}
+
+function getProvenanceLinks(app: App, note: TFile): string[] {
+    const links = app.metadataCache.getFileCache(note)?.frontmatterLinks ?? [];
+    return links
+        .filter(link => link.key === PROVENANCE_KEYS.source)
+        .map(link => link.link);
+}
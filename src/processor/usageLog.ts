@@ -0,0 +1,98 @@
+import { TokenUsage } from '../ocr/provider';
+
+export interface ModelPrice {
+    // Matches models whose name starts with this, e.g. `gemini-2.5-flash`
+    model: string;
+    // Prices in USD per million tokens
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export interface MonthlyUsage {
+    inputTokens: number;
+    outputTokens: number;
+    transcriptions: number;
+    // Estimated with the prices configured when each request was made
+    cost: number;
+}
+
+// Keyed by month, e.g. `2025-06`
+export type UsageData = Record<string, MonthlyUsage>;
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+    if (!a) return b;
+    if (!b) return a;
+    return {
+        inputTokens: a.inputTokens + b.inputTokens,
+        outputTokens: a.outputTokens + b.outputTokens
+    };
+}
+
+/**
+ * Estimates the cost of a request from the price table. The entry with the
+ * longest matching model prefix wins; unknown models cost nothing.
+ */
+export function estimateCost(usage: TokenUsage, model: string, prices: ModelPrice[]): number {
+    let best: ModelPrice | undefined;
+    for (const price of prices) {
+        const prefix = price.model.trim();
+        if (prefix && model.startsWith(prefix) && (!best || prefix.length > best.model.trim().length)) {
+            best = price;
+        }
+    }
+    if (!best) return 0;
+    return (usage.inputTokens * best.inputPerMillion + usage.outputTokens * best.outputPerMillion) / 1e6;
+}
+
+export function formatCost(cost: number): string {
+    return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Running totals of tokens used and their estimated cost, per month.
+ */
+export class UsageLog {
+    private months: UsageData;
+    private onChange: () => Promise<void>;
+
+    constructor(data: UsageData | undefined, onChange: () => Promise<void>) {
+        this.months = { ...(data || {}) };
+        this.onChange = onChange;
+    }
+
+    private static monthKey(date = new Date()): string {
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    }
+
+    async record(usage: TokenUsage, cost: number): Promise<void> {
+        const key = UsageLog.monthKey();
+        const month = this.months[key] ?? { inputTokens: 0, outputTokens: 0, transcriptions: 0, cost: 0 };
+        this.months[key] = {
+            inputTokens: month.inputTokens + usage.inputTokens,
+            outputTokens: month.outputTokens + usage.outputTokens,
+            transcriptions: month.transcriptions + 1,
+            cost: month.cost + cost
+        };
+        await this.onChange();
+    }
+
+    get currentMonth(): MonthlyUsage {
+        return this.months[UsageLog.monthKey()] ?? { inputTokens: 0, outputTokens: 0, transcriptions: 0, cost: 0 };
+    }
+
+    /**
+     * All recorded months, most recent first.
+     */
+    entries(): [string, MonthlyUsage][] {
+        return Object.entries(this.months).sort(([a], [b]) => b.localeCompare(a));
+    }
+
+    async clear(): Promise<void> {
+        this.months = {};
+        await this.onChange();
+    }
+
+    toJSON(): UsageData {
+        return this.months;
+    }
+}
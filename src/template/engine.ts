@@ -0,0 +1,630 @@
+import { moment, stringifyYaml } from 'obsidian';
+
+/**
+ * A small Handlebars-style template language used for note and filename templates.
+ *
+ *   {{content}}                          output a variable (missing values render as empty)
+ *   {{author | default: "unknown"}}      pipe a value through filters
+ *   {{dateProcessed | YYYY-MM}}          shorthand for the date filter with that format
+ *   {{#if course}}...{{else}}...{{/if}}  conditional sections
+ *   {{#each topics}}- {{this}}{{/each}}  loops, with {{@index}}, {{@first}} and {{@last}}
+ *   \{{literal}}                         escaped braces are output as-is
+ *
+ * When rendering YAML (frontmatter), values that make up a whole `key: {{value}}`
+ * or `- {{value}}` line are serialized with a YAML emitter so any string, list or
+ * nested object produces valid YAML. Other values are escaped for where they sit:
+ * inside quotes for that quote style, inside `[...]` as quoted items, and as part
+ * of a plain value (`summary: {{course}} notes`) by quoting the whole value.
+ */
+
+export class TemplateSyntaxError extends Error {
+    constructor(message: string) {
+        super(`Template error: ${message}`);
+        this.name = 'TemplateSyntaxError';
+    }
+}
+
+export type TemplateFilter = (value: unknown, ...args: unknown[]) => unknown;
+
+interface Expression {
+    path: string | null;
+    literal?: unknown;
+    filters: { name: string; args: Expression[] }[];
+}
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'output'; expression: Expression; yaml?: YamlPosition; quote?: string; flow?: boolean }
+    | { type: 'if'; condition: Expression; body: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'each'; collection: Expression; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type Scope = Record<string, unknown>;
+
+// Where an output sits on a YAML line: the whole value of a key, or a whole list item
+interface YamlPosition {
+    kind: 'value' | 'item';
+    indent: string;
+}
+
+export interface RenderOptions {
+    // Serialize values as YAML, for templates that render frontmatter
+    yaml?: boolean;
+    // Applied to each rendered value but not to the template's own text, e.g. to
+    // keep values from adding path separators to a filename
+    escape?: (text: string) => string;
+}
+
+const FILTERS: Record<string, TemplateFilter> = {
+    default: (value, fallback = '') => isEmpty(value) ? fallback : value,
+    date: (value, format = 'YYYY-MM-DD') => {
+        if (isEmpty(value)) return value;
+        const parsed = moment(value instanceof Date ? value : String(value));
+        return parsed.isValid() ? parsed.format(String(format)) : value;
+    },
+    slug: (value) => stringify(value)
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, ''),
+    join: (value, separator = ', ') => Array.isArray(value)
+        ? value.map(item => stringify(item)).join(String(separator))
+        : value,
+    upper: (value) => stringify(value).toUpperCase(),
+    lower: (value) => stringify(value).toLowerCase(),
+    wikilink: (value, alias?: string) => {
+        const link = (item: unknown) => {
+            const target = stringify(item);
+            if (!target || /^\[\[.*\]\]$/.test(target)) return target;
+            return alias ? `[[${target}|${alias}]]` : `[[${target}]]`;
+        };
+        return Array.isArray(value) ? value.map(link) : link(value);
+    }
+};
+
+export class TemplateEngine {
+    private static cache = new Map<string, TemplateNode[]>();
+
+    static render(template: string, context: Record<string, unknown>, options: RenderOptions = {}): string {
+        let nodes = TemplateEngine.cache.get(template);
+        if (!nodes) {
+            nodes = parse(template);
+            TemplateEngine.cache.set(template, nodes);
+        }
+        const output = renderNodes(nodes, [context], options);
+        return options.yaml ? quotePartialValues(output) : output;
+    }
+
+    /**
+     * Evaluates a single expression such as `author | default: "unknown"`.
+     */
+    static evaluate(expression: string, context: Record<string, unknown>): unknown {
+        return evaluateExpression(parseExpression(expression), [context]);
+    }
+
+    static get filterNames(): string[] {
+        return Object.keys(FILTERS);
+    }
+}
+
+function isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null || value === '') return true;
+    if (Array.isArray(value)) return value.length === 0;
+    return false;
+}
+
+function isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (value && typeof value === 'object') return Object.keys(value).length > 0;
+    return !!value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) {
+        // Lists of objects, such as action items, render as a markdown list
+        if (value.some(isPlainObject)) return value.map(item => `- ${stringify(item)}`).join('\n');
+        return value.map(item => stringify(item)).join(', ');
+    }
+    if (value instanceof Date) return value.toISOString();
+    if (isPlainObject(value)) {
+        return Object.entries(value)
+            .filter(([, field]) => !isEmpty(field))
+            .map(([key, field]) => `${key}: ${Array.isArray(field) || isPlainObject(field) ? `(${stringify(field)})` : stringify(field)}`)
+            .join(', ');
+    }
+    return String(value);
+}
+
+// Parsing
+
+const TAG_PATTERN = /\\\{\{|\{\{([\s\S]*?)\}\}/g;
+
+function parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Stack of open blocks; `target` is where new nodes are appended
+    const stack: { node: TemplateNode & { type: 'if' | 'each' }; target: TemplateNode[] }[] = [];
+    let target = root;
+    let lastIndex = 0;
+
+    const pushText = (text: string) => {
+        if (!text) return;
+        const last = target[target.length - 1];
+        if (last && last.type === 'text') {
+            last.text += text;
+        } else {
+            target.push({ type: 'text', text });
+        }
+    };
+
+    TAG_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TAG_PATTERN.exec(template)) !== null) {
+        pushText(template.slice(lastIndex, match.index));
+        lastIndex = TAG_PATTERN.lastIndex;
+
+        if (match[0] === '\\{{') {
+            pushText('{{');
+            continue;
+        }
+
+        const tag = match[1].trim();
+        const isBlockTag = tag.startsWith('#') || tag.startsWith('/') || tag === 'else';
+
+        // Block tags on a line of their own don't leave an empty line behind
+        if (isBlockTag) {
+            const lineStart = template.lastIndexOf('\n', match.index - 1) + 1;
+            const trailing = template.slice(lastIndex).match(/^[ \t]*(\r?\n|$)/);
+            if (trailing && /^[ \t]*$/.test(template.slice(lineStart, match.index))) {
+                const last = target[target.length - 1];
+                if (last && last.type === 'text') {
+                    last.text = last.text.replace(/[ \t]*$/, '');
+                }
+                lastIndex += trailing[0].length;
+                TAG_PATTERN.lastIndex = lastIndex;
+            }
+        }
+
+        if (tag.startsWith('#')) {
+            const [keyword, ...rest] = tag.slice(1).split(/\s+/);
+            const argument = rest.join(' ');
+            if (!argument) {
+                throw new TemplateSyntaxError(`{{#${keyword}}} needs a variable`);
+            }
+
+            let node: TemplateNode & { type: 'if' | 'each' };
+            if (keyword === 'if') {
+                node = { type: 'if', condition: parseExpression(argument), body: [], otherwise: [] };
+            } else if (keyword === 'each') {
+                node = { type: 'each', collection: parseExpression(argument), body: [], otherwise: [] };
+            } else {
+                throw new TemplateSyntaxError(`unknown block {{#${keyword}}}`);
+            }
+
+            target.push(node);
+            stack.push({ node, target });
+            target = node.body;
+        } else if (tag === 'else') {
+            const open = stack[stack.length - 1];
+            if (!open) {
+                throw new TemplateSyntaxError('{{else}} outside of a block');
+            }
+            target = open.node.otherwise;
+        } else if (tag.startsWith('/')) {
+            const keyword = tag.slice(1).trim();
+            const open = stack.pop();
+            if (!open || open.node.type !== keyword) {
+                throw new TemplateSyntaxError(`unexpected {{/${keyword}}}`);
+            }
+            target = open.target;
+        } else {
+            target.push({ type: 'output', expression: parseExpression(tag) });
+        }
+    }
+    pushText(template.slice(lastIndex));
+
+    if (stack.length > 0) {
+        throw new TemplateSyntaxError(`missing {{/${stack[stack.length - 1].node.type}}}`);
+    }
+
+    markOutputPositions(root);
+    return root;
+}
+
+/**
+ * Records where each output sits on its line: the whole value of a `key: {{value}}`
+ * line, a whole `- {{value}}` list item, or inside quotes. This decides how values
+ * are serialized in YAML.
+ */
+function markOutputPositions(nodes: TemplateNode[]) {
+    for (let i = 0; i < nodes.length; i++) {
+        const node = nodes[i];
+        if (node.type === 'if' || node.type === 'each') {
+            markOutputPositions(node.body);
+            markOutputPositions(node.otherwise);
+            continue;
+        }
+        if (node.type !== 'output') continue;
+
+        const after = nodes[i + 1];
+        const prefix = linePrefix(nodes, i);
+        // Only whitespace may follow on the line, not another output
+        const endsLine = after === undefined || (after.type === 'text' && (
+            /^[ \t]*\r?\n/.test(after.text) || (i + 2 === nodes.length && /^[ \t]*$/.test(after.text))
+        ));
+
+        if (endsLine) {
+            const keyMatch = prefix.match(/^([ \t]*)[\w-]+:[ \t]*$/);
+            const itemMatch = prefix.match(/^([ \t]*)-[ \t]+$/);
+            if (keyMatch) {
+                node.yaml = { kind: 'value', indent: keyMatch[1] };
+            } else if (itemMatch) {
+                node.yaml = { kind: 'item', indent: itemMatch[1] };
+            }
+        }
+
+        if (!node.yaml) {
+            const context = scanYamlLine(prefix);
+            node.quote = context.quote;
+            node.flow = context.flow;
+        }
+    }
+}
+
+/**
+ * Text of the current line up to the node at `index`. Earlier outputs on the line
+ * stand in as a plain character.
+ */
+function linePrefix(nodes: TemplateNode[], index: number): string {
+    let prefix = '';
+    for (let i = index - 1; i >= 0; i--) {
+        const node = nodes[i];
+        if (node.type === 'output') {
+            prefix = 'x' + prefix;
+        } else if (node.type === 'text') {
+            const lineStart = node.text.lastIndexOf('\n');
+            prefix = node.text.slice(lineStart + 1) + prefix;
+            if (lineStart >= 0) break;
+        } else {
+            break;
+        }
+    }
+    return prefix;
+}
+
+/**
+ * Works out whether the end of a YAML line is inside a quoted scalar or a flow
+ * collection. Quotes and brackets only count where a value starts, so an
+ * apostrophe in plain text doesn't open a quote.
+ */
+function scanYamlLine(prefix: string): { quote?: string; flow?: boolean } {
+    let quote: string | undefined;
+    let depth = 0;
+    let atValueStart = true;
+
+    for (let i = 0; i < prefix.length; i++) {
+        const char = prefix[i];
+        if (quote) {
+            if (quote === '"' && char === '\\') {
+                i++;
+            } else if (char === quote) {
+                // '' is an escaped quote inside single quotes
+                if (quote === "'" && prefix[i + 1] === "'") {
+                    i++;
+                } else {
+                    quote = undefined;
+                    atValueStart = false;
+                }
+            }
+            continue;
+        }
+
+        if (char === ' ' || char === '\t') continue;
+        if (atValueStart && (char === '"' || char === "'")) {
+            quote = char;
+        } else if (atValueStart && (char === '[' || char === '{')) {
+            depth++;
+        } else if ((char === ']' || char === '}') && depth > 0) {
+            depth--;
+            atValueStart = false;
+        } else {
+            atValueStart = char === ':' || char === ',' || char === '-';
+        }
+    }
+
+    return { quote, flow: !quote && depth > 0 };
+}
+
+function splitOutsideQuotes(input: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quote) {
+            if (char === '\\' && i + 1 < input.length) {
+                current += char + input[++i];
+                continue;
+            }
+            if (char === quote) quote = null;
+            current += char;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            current += char;
+        } else if (char === separator) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+
+    if (quote) {
+        throw new TemplateSyntaxError(`unterminated string in "${input}"`);
+    }
+    parts.push(current);
+    return parts;
+}
+
+function parseOperand(raw: string): Expression {
+    const text = raw.trim();
+
+    if (/^(["'])[\s\S]*\1$/.test(text)) {
+        const body = text.slice(1, -1).replace(/\\(["'\\])/g, '$1');
+        return { path: null, literal: body, filters: [] };
+    }
+    if (/^-?\d+(\.\d+)?$/.test(text)) {
+        return { path: null, literal: parseFloat(text), filters: [] };
+    }
+    if (text === 'true' || text === 'false') {
+        return { path: null, literal: text === 'true', filters: [] };
+    }
+    if (!/^\.?[@\w-]+(\.[@\w-]+)*$/.test(text)) {
+        throw new TemplateSyntaxError(`invalid expression "${text}"`);
+    }
+
+    // A leading dot is accepted for compatibility with Go-style templates
+    return { path: text.replace(/^\./, ''), filters: [] };
+}
+
+// Only moment.js format tokens and separators, e.g. `YYYY-MM` or `DD.MM.YYYY HH:mm`
+const DATE_FORMAT_PATTERN = /^(?=.*[YMDHhmsQWwEeGgXxaAZ])[YMDdHhmsSQWwEeGgXxaAZkLo\-_.,:/ ]+$/;
+// A separator or a token such as `YYYY`, so misspelled filter names aren't taken for formats
+const DATE_FORMAT_MARKER = /[^A-Za-z]|YY|MM|DD|HH/;
+
+function isDateFormat(text: string): boolean {
+    return DATE_FORMAT_PATTERN.test(text) && DATE_FORMAT_MARKER.test(text);
+}
+
+function parseExpression(source: string): Expression {
+    const [head, ...filterParts] = splitOutsideQuotes(source, '|');
+    const expression = parseOperand(head);
+
+    for (const part of filterParts) {
+        // A bare date format that isn't a filter name formats the value as a date
+        const format = part.trim();
+        if (!FILTERS[format.split(':')[0].trim()] && isDateFormat(format)) {
+            expression.filters.push({ name: 'date', args: [{ path: null, literal: format, filters: [] }] });
+            continue;
+        }
+
+        const separatorIndex = part.indexOf(':');
+        const name = (separatorIndex >= 0 ? part.slice(0, separatorIndex) : part).trim();
+        const argSource = separatorIndex >= 0 ? part.slice(separatorIndex + 1) : '';
+
+        if (!FILTERS[name]) {
+            throw new TemplateSyntaxError(`unknown filter "${name}"`);
+        }
+
+        const args = argSource.trim()
+            ? splitOutsideQuotes(argSource, ',').map(arg => parseOperand(arg))
+            : [];
+        expression.filters.push({ name, args });
+    }
+
+    return expression;
+}
+
+// Rendering
+
+function resolvePath(path: string, scopes: Scope[]): unknown {
+    const segments = path.split('.');
+    const [first, ...rest] = segments;
+
+    let value: unknown;
+    if (first === 'this') {
+        value = scopes[scopes.length - 1]['this'];
+    } else {
+        // Look the name up from the innermost scope outwards
+        for (let i = scopes.length - 1; i >= 0; i--) {
+            const scope = scopes[i];
+            const item = scope['this'];
+            if (isPlainObject(item) && first in item) {
+                value = item[first];
+                break;
+            }
+            if (first in scope) {
+                value = scope[first];
+                break;
+            }
+        }
+    }
+
+    for (const segment of rest) {
+        if (value === undefined || value === null) return undefined;
+        value = (value as Record<string, unknown>)[segment];
+    }
+    return value;
+}
+
+function evaluateExpression(expression: Expression, scopes: Scope[]): unknown {
+    let value = expression.path === null ? expression.literal : resolvePath(expression.path, scopes);
+
+    for (const filter of expression.filters) {
+        const args = filter.args.map(arg => evaluateExpression(arg, scopes));
+        value = FILTERS[filter.name](value, ...args);
+    }
+    return value;
+}
+
+function renderYamlList(value: unknown[], indent: string): string {
+    if (value.length === 0) return '[]';
+    return '\n' + value.map(item => `${indent}  - ${stringify(item)}`).join('\n');
+}
+
+function indentLines(text: string, indent: string): string {
+    return text.split('\n').map(line => line ? indent + line : line).join('\n');
+}
+
+function toYaml(value: unknown): string {
+    return stringifyYaml(value).replace(/\n+$/, '');
+}
+
+/**
+ * Serializes a value for a YAML position, e.g. `key: {{value}}` or `- {{value}}`.
+ * Missing values become an empty (null) value.
+ */
+function renderYamlValue(value: unknown, position: YamlPosition): string {
+    if (value === undefined || value === null || value === '') return '';
+    if (value instanceof Date) value = value.toISOString();
+
+    if (Array.isArray(value)) {
+        if (value.length === 0) return '[]';
+        // A list in a list item position becomes sibling items
+        if (position.kind === 'item') {
+            return value.map(item => renderYamlValue(item, position)).join(`\n${position.indent}- `);
+        }
+        return '\n' + indentLines(toYaml(value), position.indent + '  ');
+    }
+
+    if (typeof value === 'object' && value !== null) {
+        if (Object.keys(value).length === 0) return '{}';
+        if (position.kind === 'item') {
+            // Mapping inside a list item: first key follows the dash, the rest align with it
+            const [first, ...rest] = toYaml(value).split('\n');
+            return [first, ...rest.map(line => `${position.indent}  ${line}`)].join('\n');
+        }
+        return '\n' + indentLines(toYaml(value), position.indent + '  ');
+    }
+
+    // Scalars, including block scalars for multi-line strings
+    const [first, ...rest] = toYaml(value).split('\n');
+    const continuationIndent = position.kind === 'item' ? position.indent + '  ' : position.indent;
+    return [first, ...rest.map(line => continuationIndent + line)].join('\n');
+}
+
+// Mark values that are part of a plain YAML value, so the whole value can be
+// quoted once the line is rendered. Private use characters don't occur in templates.
+const PARTIAL_START = '\uE000';
+const PARTIAL_END = '\uE001';
+const PARTIAL_NEWLINE = '\uE002';
+const PARTIAL_MARKS = /[\uE000\uE001]/g;
+const PARTIAL_NEWLINES = /\uE002/g;
+
+function markPartialValue(value: unknown): string {
+    return PARTIAL_START + stringify(value).replace(/\r?\n/g, PARTIAL_NEWLINE) + PARTIAL_END;
+}
+
+/**
+ * Quotes each `key: value` or `- value` line that contains a marked value. Marked
+ * lines without a key, such as the lines of a block scalar, are left as they are.
+ */
+function quotePartialValues(text: string): string {
+    if (!text.includes(PARTIAL_START)) return text;
+
+    return text.split('\n').map(line => {
+        if (!line.includes(PARTIAL_START)) return line;
+
+        const match = line.match(/^([ \t]*(?:-[ \t]+)?[\w-]+:[ \t]*|[ \t]*-[ \t]+)(.*)$/);
+        if (!match) {
+            // Continuation lines keep the indentation of the line the value is on
+            const indent = line.match(/^[ \t]*/)?.[0] ?? '';
+            return line.replace(PARTIAL_MARKS, '').replace(PARTIAL_NEWLINES, '\n' + indent);
+        }
+
+        const value = match[2].replace(PARTIAL_MARKS, '').replace(PARTIAL_NEWLINES, '\n').trim();
+        // A JSON string is a valid double-quoted YAML scalar
+        return match[1] + (value ? JSON.stringify(value) : '');
+    }).join('\n');
+}
+
+/**
+ * Renders a value inside a flow collection such as `[{{tags}}]`: each item quoted,
+ * with lists spread into separate items.
+ */
+function renderFlowValue(value: unknown): string {
+    if (isEmpty(value)) return '';
+    if (Array.isArray(value)) return value.map(item => JSON.stringify(stringify(item))).join(', ');
+    return JSON.stringify(stringify(value));
+}
+
+function escapeQuoted(value: string, quote: string): string {
+    if (quote === "'") return value.replace(/'/g, "''");
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], options: RenderOptions): string {
+    let output = '';
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.text;
+                break;
+            case 'output': {
+                const value = evaluateExpression(node.expression, scopes);
+                if (options.yaml && node.yaml) {
+                    output += renderYamlValue(value, node.yaml);
+                } else if (options.yaml && node.quote) {
+                    output += escapeQuoted(stringify(value), node.quote);
+                } else if (options.yaml && node.flow) {
+                    output += renderFlowValue(value);
+                } else if (options.yaml) {
+                    output += markPartialValue(value);
+                } else if (Array.isArray(value) && node.yaml?.kind === 'value') {
+                    output += renderYamlList(value, node.yaml.indent);
+                } else {
+                    output += options.escape ? options.escape(stringify(value)) : stringify(value);
+                }
+                break;
+            }
+            case 'if':
+                output += isTruthy(evaluateExpression(node.condition, scopes))
+                    ? renderNodes(node.body, scopes, options)
+                    : renderNodes(node.otherwise, scopes, options);
+                break;
+            case 'each': {
+                const collection = evaluateExpression(node.collection, scopes);
+                const entries: [string | number, unknown][] = Array.isArray(collection)
+                    ? collection.map((item, index) => [index, item])
+                    : collection && typeof collection === 'object'
+                        ? Object.entries(collection)
+                        : [];
+
+                if (entries.length === 0) {
+                    output += renderNodes(node.otherwise, scopes, options);
+                    break;
+                }
+
+                entries.forEach(([key, item], index) => {
+                    output += renderNodes(node.body, [...scopes, {
+                        'this': item,
+                        '@index': index,
+                        '@number': index + 1,
+                        '@key': key,
+                        '@first': index === 0,
+                        '@last': index === entries.length - 1
+                    }], options);
+                });
+                break;
+            }
+        }
+    }
+
+    return output;
+}
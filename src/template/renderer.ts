@@ -1,3 +1,5 @@
+import { TemplateEngine } from './engine';
+
 export interface TemplateData {
     content: string;
     tags: string[];
@@ -8,7 +10,9 @@ export interface TemplateData {
     dateProcessed: string;
     pageCount: number;
     modelUsed: string;
-    customVariables: Record<string, any>;
+    // Input and output tokens used to transcribe the file
+    tokensUsed: number;
+    customVariables: Record<string, unknown>;
 }
 
 export interface FilenameData {
@@ -17,91 +21,150 @@ export interface FilenameData {
     originalFilename: string;
     dateProcessed: string;
     secondsBase36: string;
-    [key: string]: any; // For custom variables
+    [key: string]: unknown; // For custom variables
+}
+
+export const DEFAULT_MAX_FILENAME_LENGTH = 120;
+
+// Not allowed in file names, or they break links: \ / : * ? " < > | # ^ [ ] and
+// control characters, built from char codes as the linter rejects them in regex literals
+const CONTROL_CHARACTERS = `${String.fromCharCode(0x00)}-${String.fromCharCode(0x1f)}`;
+const ILLEGAL_NAME_CHARACTERS = new RegExp(`[\\\\/:*?"<>|#^[\\]${CONTROL_CHARACTERS}]+`, 'g');
+
+function sanitizeName(text: string): string {
+    return text.replace(ILLEGAL_NAME_CHARACTERS, '-').replace(/\s+/g, ' ');
+}
+
+function truncate(text: string, maxLength: number): string {
+    // Count code points so emoji and other surrogate pairs aren't split
+    const characters = Array.from(text);
+    return characters.length > maxLength ? characters.slice(0, maxLength).join('').trimEnd() : text;
+}
+
+// Names can't start with a space or end with a space or dot
+function trimName(name: string): string {
+    return name.trim().replace(/[\s.]+$/, '');
+}
+
+/**
+ * Drops empty and relative folders and limits each segment's length. An empty
+ * file name (e.g. a template of only missing values) falls back to `fallback`.
+ */
+function cleanPath(path: string, fallback: string, maxLength: number): string {
+    const segments = path.split(/[\\/]/);
+    const filename = (segments.pop() ?? '').trim();
+    const folders = segments.map(trimName).filter(folder => folder !== '');
+
+    const extension = filename.match(/\.[^.\s]+$/)?.[0] || '';
+    const name = trimName(filename.slice(0, filename.length - extension.length)) || trimName(sanitizeName(fallback)) || 'Untitled';
+
+    return [...folders.map(folder => truncate(folder, maxLength)), truncate(name, maxLength) + extension].join('/');
 }
 
 export class TemplateRenderer {
+    /**
+     * Renders a note template. Placeholders inside the leading frontmatter block
+     * are serialized as YAML so quotes, colons, links and nested objects stay valid.
+     */
     static renderTemplate(template: string, data: TemplateData): string {
-        // Create a copy of the data with escaped content
-        const escapedData = {
-            ...data,
-            content: data.content.replace(/\{\{/g, '\\{\\{').replace(/\}\}/g, '\\}\\}')
+        const context = TemplateRenderer.buildContext(data);
+        const frontmatter = template.match(/^---\r?\n[\s\S]*?\r?\n---(?=\r?\n|$)/);
+        if (!frontmatter) {
+            return TemplateEngine.render(template, context);
+        }
+
+        const body = template.slice(frontmatter[0].length);
+        return TemplateEngine.render(frontmatter[0], context, { yaml: true }) + TemplateEngine.render(body, context);
+    }
+
+    /**
+     * Flattens template data so extracted variables can be used directly
+     * (`{{author}}`) as well as through `{{customVariables.author}}`.
+     */
+    static buildContext(data: TemplateData): Record<string, unknown> {
+        const { customVariables, ...builtIns } = data;
+        return {
+            ...customVariables,
+            ...builtIns,
+            // Fall back to extracted tags for backward compatibility
+            tags: data.tags || customVariables.tags,
+            customVariables
         };
+    }
 
-        // Simple template replacement
-        let result = template;
-        
-        // Replace simple variables
-        for (const [key, value] of Object.entries(escapedData)) {
-            if (typeof value === 'string' || typeof value === 'number') {
-                const regex = new RegExp(`\\{\\{\\s*\\.?${key}\\s*\\}\\}`, 'g');
-                result = result.replace(regex, String(value));
-            }
-        }
+    /**
+     * Renders a filename template into a vault-relative path. Values are cleaned of
+     * characters Obsidian doesn't allow in names, so a date like "12/03/2025" can't
+     * nest folders; slashes written in the template itself still create subfolders.
+     * Each path segment is cut to `maxLength` characters, keeping the extension.
+     */
+    static generateFilename(
+        template: string,
+        originalFilename: string,
+        customVars: Record<string, unknown>,
+        maxLength = DEFAULT_MAX_FILENAME_LENGTH
+    ): string {
+        const data = TemplateRenderer.buildFilenameData(originalFilename, customVars);
+        const rendered = TemplateEngine.render(template, data, { escape: sanitizeName });
+        return cleanPath(rendered, data.baseName, maxLength);
+    }
 
-        // Replace custom variables
-        for (const [key, value] of Object.entries(data.customVariables)) {
-            const regex = new RegExp(`\\{\\{\\s*\\.?customVariables\\.${key}\\s*\\}\\}`, 'g');
-            result = result.replace(regex, String(value));
-            // Also allow direct access without customVariables prefix
-            const directRegex = new RegExp(`\\{\\{\\s*\\.?${key}\\s*\\}\\}`, 'g');
-            result = result.replace(directRegex, String(value));
-        }
+    /**
+     * Cleans a filename that may have been edited by hand, such as during review,
+     * the same way as generated ones. Slashes still mean subfolders, an empty name
+     * falls back to `fallback`, and `.md` is added if the name has no such extension.
+     */
+    static cleanFilename(filename: string, fallback: string, maxLength = DEFAULT_MAX_FILENAME_LENGTH): string {
+        const path = cleanPath(filename.split(/[\\/]/).map(sanitizeName).join('/'), fallback, maxLength);
+        return /\.md$/i.test(path) ? path : `${path}.md`;
+    }
 
-        // Handle array values (like tags)
-        // Check both data.tags and customVariables.tags for backward compatibility
-        const tags = data.tags || data.customVariables.tags;
-        if (tags && Array.isArray(tags) && tags.length > 0) {
-            const tagsRegex = /\{\{\s*\.?tags\s*\}\}/g;
-            const tagsYaml = tags.map(tag => `  - ${tag}`).join('\n');
-            result = result.replace(tagsRegex, `\n${tagsYaml}`);
-        } else {
-            result = result.replace(/tags:\s*\{\{\s*\.?tags\s*\}\}/g, 'tags: []');
-        }
-        
-        // Handle other array values in customVariables for YAML formatting
-        for (const [key, value] of Object.entries(data.customVariables)) {
-            if (Array.isArray(value) && key !== 'tags') { // tags already handled above
-                const arrayRegex = new RegExp(`(\\w+):\\s*\\{\\{\\s*\\.?${key}\\s*\\}\\}`, 'g');
-                if (value.length > 0) {
-                    const yamlArray = value.map(item => `  - ${item}`).join('\n');
-                    result = result.replace(arrayRegex, `$1:\n${yamlArray}`);
-                } else {
-                    result = result.replace(arrayRegex, '$1: []');
-                }
+    /**
+     * Renders a folder template such as `Courses/{{course}}/Notes` with the same
+     * variables as filename templates. If any value in it is missing, `fallback`
+     * is used instead, so files don't end up in a half-named folder.
+     */
+    static renderFolder(
+        template: string,
+        originalFilename: string,
+        customVars: Record<string, unknown>,
+        fallback: string,
+        maxLength = DEFAULT_MAX_FILENAME_LENGTH
+    ): string {
+        let isMissing = false;
+        const rendered = TemplateEngine.render(template, TemplateRenderer.buildFilenameData(originalFilename, customVars), {
+            escape: (text) => {
+                isMissing = isMissing || text.trim() === '';
+                return sanitizeName(text);
             }
-        }
+        });
 
-        return result;
+        return (isMissing ? fallback : rendered)
+            .split(/[\\/]/)
+            .map(trimName)
+            .filter(folder => folder !== '')
+            .map(folder => truncate(folder, maxLength))
+            .join('/');
     }
 
-    static generateFilename(template: string, originalFilename: string, customVars: Record<string, any>): string {
-        const baseName = originalFilename.replace(/\.[^.]+$/, '');
-        const extension = originalFilename.match(/\.[^.]+$/)?.[0] || '';
-        
+    private static buildFilenameData(originalFilename: string, customVars: Record<string, unknown>): FilenameData {
         const now = new Date();
-        const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        const secondsSinceMidnight = Math.floor((now.getTime() - midnight.getTime()) / 1000);
-        const secondsBase36 = secondsSinceMidnight.toString(36);
-
-        const data: FilenameData = {
-            baseName,
-            extension,
+        return {
+            baseName: originalFilename.replace(/\.[^.]+$/, ''),
+            extension: originalFilename.match(/\.[^.]+$/)?.[0] || '',
             originalFilename,
             dateProcessed: now.toISOString(),
-            secondsBase36,
+            secondsBase36: TemplateRenderer.secondsBase36(now),
             ...customVars
         };
+    }
 
-        let result = template;
-        
-        // Replace all variables
-        for (const [key, value] of Object.entries(data)) {
-            const regex = new RegExp(`\\{\\{\\s*\\.?${key}\\s*\\}\\}`, 'g');
-            result = result.replace(regex, String(value));
-        }
-
-        return result;
+    /**
+     * Seconds since local midnight in base 36, a short suffix that is unique within a day.
+     */
+    static secondsBase36(date = new Date()): string {
+        const midnight = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+        return Math.floor((date.getTime() - midnight.getTime()) / 1000).toString(36);
     }
 
     static createTemplateData(
@@ -112,8 +175,9 @@ export class TemplateRenderer {
         markdownLink: string,
         pageCount: number,
         modelUsed: string,
-        customVars: Record<string, any>,
-        extractedVars: Record<string, any>
+        tokensUsed: number,
+        customVars: Record<string, unknown>,
+        extractedVars: Record<string, unknown>
     ): TemplateData {
         // Merge custom variables with extracted variables
         const mergedVars = { ...customVars, ...extractedVars };
@@ -128,6 +192,7 @@ export class TemplateRenderer {
             dateProcessed: new Date().toISOString(),
             pageCount,
             modelUsed,
+            tokensUsed,
             customVariables: mergedVars
         };
     }
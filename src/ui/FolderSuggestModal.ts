@@ -1,4 +1,5 @@
 import { App, SuggestModal, TFolder } from 'obsidian';
+import { FileProcessor } from '../processor/fileProcessor';
 
 export class FolderSuggestModal extends SuggestModal<TFolder> {
     private onSelect: (folder: TFolder) => void;
@@ -26,11 +27,7 @@ export class FolderSuggestModal extends SuggestModal<TFolder> {
         el.createEl('div', { text: folder.path });
         
         // Add a small indicator showing the number of supported files
-        const supportedExtensions = ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'gif'];
-        const supportedFiles = this.app.vault.getFiles().filter(file => 
-            file.path.startsWith(folder.path + '/') && 
-            supportedExtensions.includes(file.extension.toLowerCase())
-        );
+        const supportedFiles = FileProcessor.getSupportedFiles(folder, this.app.vault);
         
         if (supportedFiles.length > 0) {
             el.createEl('small', { 
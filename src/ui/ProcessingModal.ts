@@ -1,6 +1,12 @@
 import { App, Modal, TFile, TFolder, Setting, Notice } from 'obsidian';
-import { FileProcessor, BatchProcessingProgress, ProcessingResult } from '../processor/fileProcessor';
+import { FileProcessor, BatchProcessingProgress, ProcessingResult, ProcessingOptions, ReviewDecision, ReviewDraft } from '../processor/fileProcessor';
 import { HandwriteSettings } from '../config/settings';
+import { ProcessingLedger } from '../processor/ledger';
+import { UsageLog, formatCost } from '../processor/usageLog';
+import { PreprocessLog } from '../processor/imagePreprocess';
+import { BatchController } from '../processor/batchControl';
+import { ReviewModal } from './ReviewModal';
+import { FAILURE_CATEGORY_LABELS, FailureEntry, exportFailureReport } from '../processor/failureReport';
 
 export class ProcessingModal extends Modal {
     private files: TFile[];
@@ -10,12 +16,32 @@ export class ProcessingModal extends Modal {
     private statusEl: HTMLElement;
     private resultsEl: HTMLElement;
     private isProcessing: boolean = false;
+    private ledger: ProcessingLedger;
+    private options: ProcessingOptions;
+    private controller: BatchController | null = null;
+    private reviewBeforeWrite: boolean;
+    // Reviews are shown one at a time even when several workers finish together
+    private reviewQueue: Promise<unknown> = Promise.resolve();
+    // Failures of the last run, for the report and "Retry failed"
+    private failures: FailureEntry[] = [];
+    private failuresEl: HTMLElement;
 
-    constructor(app: App, files: TFile[], settings: HandwriteSettings) {
+    constructor(
+        app: App,
+        files: TFile[],
+        settings: HandwriteSettings,
+        ledger: ProcessingLedger,
+        usageLog: UsageLog,
+        preprocessLog: PreprocessLog,
+        options: ProcessingOptions = {}
+    ) {
         super(app);
         this.files = files;
         this.settings = settings;
-        this.processor = new FileProcessor(app, settings);
+        this.ledger = ledger;
+        this.options = { ...options };
+        this.reviewBeforeWrite = settings.reviewBeforeWrite;
+        this.processor = new FileProcessor(app, settings, ledger, usageLog, preprocessLog);
     }
 
     onOpen() {
@@ -30,8 +56,9 @@ export class ProcessingModal extends Modal {
         });
 
         // File count
+        const profile = this.settings.profiles.find(p => p.id === this.options.profileId);
         contentEl.createEl('p', {
-            text: `Processing ${this.files.length} file${this.files.length > 1 ? 's' : ''}`,
+            text: `Processing ${this.files.length} file${this.files.length > 1 ? 's' : ''}${profile ? ` with profile "${profile.name}"` : ''}`,
             cls: 'handwrite-modal__file-count'
         });
 
@@ -50,6 +77,28 @@ export class ProcessingModal extends Modal {
             attr: { max: '100', value: '0' }
         });
 
+        new Setting(contentEl)
+            .setName('Review before writing')
+            .setDesc('Check and correct each transcription before its note is created')
+            .addToggle(toggle => toggle
+                .setValue(this.reviewBeforeWrite)
+                .onChange(value => {
+                    this.reviewBeforeWrite = value;
+                }));
+
+        // Only offer the toggle when some files have been processed before
+        const previouslyProcessed = this.files.filter(file => this.ledger.hasPath(file.path)).length;
+        if (previouslyProcessed > 0) {
+            new Setting(contentEl)
+                .setName('Force reprocess')
+                .setDesc(`${previouslyProcessed} file${previouslyProcessed > 1 ? 's have' : ' has'} been processed before. Unchanged files are skipped unless this is enabled.`)
+                .addToggle(toggle => toggle
+                    .setValue(!!this.options.force)
+                    .onChange(value => {
+                        this.options.force = value;
+                    }));
+        }
+
         // Results section
         this.resultsEl = contentEl.createDiv('handwrite-modal__results');
         this.resultsEl.createEl('h3', {
@@ -61,6 +110,9 @@ export class ProcessingModal extends Modal {
             cls: 'handwrite-modal__results-list'
         });
 
+        this.failuresEl = contentEl.createDiv('handwrite-modal__failures');
+        this.failuresEl.hide();
+
         // Buttons
         const buttonContainer = contentEl.createDiv('handwrite-modal__buttons');
         
@@ -69,31 +121,94 @@ export class ProcessingModal extends Modal {
             cls: 'handwrite-modal__button handwrite-modal__button--primary'
         });
 
+        const pauseButton = buttonContainer.createEl('button', {
+            text: 'Pause',
+            cls: 'handwrite-modal__button handwrite-modal__button--secondary'
+        });
+        pauseButton.hide();
+
+        const retryButton = buttonContainer.createEl('button', {
+            text: 'Retry failed',
+            cls: 'handwrite-modal__button handwrite-modal__button--secondary'
+        });
+        retryButton.hide();
+
         const cancelButton = buttonContainer.createEl('button', {
             text: 'Cancel',
             cls: 'handwrite-modal__button handwrite-modal__button--secondary'
         });
 
-        // Event handlers
-        processButton.addEventListener('click', async () => {
-            if (this.isProcessing) return;
-            
+        const run = async () => {
             this.isProcessing = true;
+            this.controller = new BatchController();
             processButton.setText('Processing...');
             processButton.disabled = true;
+            retryButton.hide();
+            pauseButton.setText('Pause');
+            pauseButton.show();
+            cancelButton.setText('Cancel');
 
             await this.processFiles(resultsList);
 
+            this.isProcessing = false;
+            this.controller = null;
             processButton.setText('Done');
+            pauseButton.hide();
             cancelButton.setText('Close');
+            cancelButton.disabled = false;
+            if (this.failures.length > 0) {
+                retryButton.show();
+            }
+        };
+
+        // Event handlers
+        processButton.addEventListener('click', async () => {
+            if (this.isProcessing) return;
+            await run();
+        });
+
+        retryButton.addEventListener('click', async () => {
+            if (this.isProcessing) return;
+
+            // Run again with only the files that failed
+            const failedPaths = new Set(this.failures.map(failure => failure.sourcePath));
+            this.files = this.files.filter(file => failedPaths.has(file.path));
+            resultsList.empty();
+            this.progressBar.value = 0;
+            await run();
+        });
+
+        pauseButton.addEventListener('click', () => {
+            if (!this.controller) return;
+
+            if (this.controller.isPaused) {
+                this.controller.resume();
+                pauseButton.setText('Pause');
+                this.statusEl.setText('Resuming...');
+            } else {
+                this.controller.pause();
+                pauseButton.setText('Resume');
+                this.statusEl.setText('Paused. Files already in progress will finish; no new files will start.');
+            }
         });
 
         cancelButton.addEventListener('click', () => {
+            if (this.isProcessing && this.controller) {
+                this.controller.cancel();
+                this.statusEl.setText('Cancelling...');
+                cancelButton.disabled = true;
+                pauseButton.hide();
+                return;
+            }
             this.close();
         });
     }
 
     private async processFiles(resultsList: HTMLElement) {
+        this.failures = [];
+        this.failuresEl.empty();
+        this.failuresEl.hide();
+
         const results = await this.processor.processBatch(
             this.files,
             (progress: BatchProcessingProgress) => {
@@ -111,35 +226,125 @@ export class ProcessingModal extends Modal {
                     cls: 'handwrite-modal__result-item'
                 });
 
+                const status = result.skipped || result.cancelled ? 'skipped' : result.success ? 'success' : 'error';
                 const icon = listItem.createEl('span', {
-                    cls: `handwrite-modal__result-icon handwrite-modal__result-icon--${result.success ? 'success' : 'error'}`
+                    cls: `handwrite-modal__result-icon handwrite-modal__result-icon--${status}`
                 });
-                icon.setText(result.success ? '✓' : '✗');
+                icon.setText(result.cancelled ? '⊘' : result.skipped ? '↷' : result.success ? '✓' : '✗');
 
                 const text = listItem.createEl('span', {
                     cls: 'handwrite-modal__result-text'
                 });
                 
-                if (result.success) {
-                    text.setText(`${file.name} → ${result.filePath}`);
+                if (result.skipReason === 'review') {
+                    text.setText(`${file.name}: skipped during review`);
+                } else if (result.skipReason === 'exists') {
+                    text.setText(`${file.name}: skipped: note already exists`);
+                } else if (result.skipped) {
+                    text.setText(`${file.name}: unchanged, already transcribed to ${result.filePath}`);
+                } else if (result.success) {
+                    const failedPages = result.failedPages?.length
+                        ? ` (page${result.failedPages.length > 1 ? 's' : ''} ${result.failedPages.join(', ')} failed)`
+                        : '';
+                    const retries = result.retries ? ` (retried ${result.retries}×)` : '';
+                    text.setText(`${file.name} → ${result.filePath}${failedPages}${retries}`);
+                } else if (result.notStarted) {
+                    text.setText(`${file.name}: not started (${result.budgetExceeded ? 'monthly budget reached' : 'batch cancelled'})`);
                 } else {
-                    text.setText(`${file.name}: ${result.error}`);
+                    const category = FAILURE_CATEGORY_LABELS[result.errorCategory ?? 'other'];
+                    text.setText(`${file.name}: ${category}: ${result.error}`);
                 }
+            },
+            {
+                ...this.options,
+                controller: this.controller ?? undefined,
+                review: this.reviewBeforeWrite
+                    ? (file: TFile, draft: ReviewDraft) => this.reviewFile(file, draft)
+                    : undefined
             }
         );
 
         // Show summary
-        const successful = Array.from(results.values()).filter(r => r.success).length;
-        const failed = results.size - successful;
+        const skipped = Array.from(results.values()).filter(r => r.skipped).length;
+        const successful = Array.from(results.values()).filter(r => r.success && !r.skipped).length;
+        const cancelled = Array.from(results.values()).filter(r => r.cancelled).length;
+        const failed = results.size - successful - skipped - cancelled;
+
+        const skippedSummary = skipped > 0 ? `, ${skipped} skipped` : '';
+        const cancelledSummary = cancelled > 0 ? `, ${cancelled} cancelled` : '';
+        const budgetExceeded = Array.from(results.values()).some(r => r.budgetExceeded);
+        const heading = budgetExceeded
+            ? 'Processing stopped at the monthly budget'
+            : this.controller?.isCancelled ? 'Processing cancelled' : 'Processing complete';
 
-        this.statusEl.setText(`Processing complete: ${successful} successful, ${failed} failed`);
+        let tokens = 0;
+        let cost = 0;
+        for (const result of results.values()) {
+            tokens += (result.usage?.inputTokens ?? 0) + (result.usage?.outputTokens ?? 0);
+            cost += result.cost ?? 0;
+        }
+        const usageSummary = tokens > 0 ? `. ${tokens.toLocaleString()} tokens used (est. ${formatCost(cost)})` : '';
+
+        this.statusEl.setText(`${heading}: ${successful} successful, ${failed} failed${skippedSummary}${cancelledSummary}${usageSummary}`);
         
         if (successful > 0) {
             new Notice(`Successfully processed ${successful} file${successful > 1 ? 's' : ''}`);
         }
+
+        this.failures = Array.from(results.entries())
+            .filter(([, result]) => !result.success && !result.skipped && !result.cancelled)
+            .map(([sourcePath, result]) => ({
+                sourcePath,
+                category: result.errorCategory ?? 'other',
+                error: result.error ?? 'Unknown error'
+            }));
+        this.renderFailures();
+    }
+
+    /**
+     * Lists the failures of the run by category, with the option to save them as a note.
+     */
+    private renderFailures() {
+        if (this.failures.length === 0) return;
+
+        this.failuresEl.show();
+        this.failuresEl.createEl('h3', {
+            text: `Failures (${this.failures.length})`,
+            cls: 'handwrite-modal__results-header'
+        });
+
+        const table = this.failuresEl.createEl('table', { cls: 'handwrite-modal__failures-table' });
+        const header = table.createEl('tr');
+        ['File', 'Category', 'Detail'].forEach(title => header.createEl('th', { text: title }));
+        for (const failure of this.failures) {
+            const row = table.createEl('tr');
+            row.createEl('td', { text: failure.sourcePath });
+            row.createEl('td', { text: FAILURE_CATEGORY_LABELS[failure.category] });
+            row.createEl('td', { text: failure.error });
+        }
+
+        const exportButton = this.failuresEl.createEl('button', {
+            text: 'Export report',
+            cls: 'handwrite-modal__button handwrite-modal__button--secondary'
+        });
+        exportButton.addEventListener('click', async () => {
+            const note = await exportFailureReport(this.app, this.failures);
+            new Notice(`Failure report saved to ${note.path}`);
+        });
+    }
+
+    private reviewFile(file: TFile, draft: ReviewDraft): Promise<ReviewDecision> {
+        const review = this.reviewQueue.then(() => {
+            this.statusEl.setText(`Reviewing: ${file.name}`);
+            return ReviewModal.review(this.app, file, draft, this.processor);
+        });
+        this.reviewQueue = review;
+        return review;
     }
 
     onClose() {
+        // Closing the modal stops the batch instead of leaving it running in the background
+        this.controller?.cancel();
         const { contentEl } = this;
         contentEl.empty();
     }
@@ -0,0 +1,144 @@
+import { App, Modal, Setting } from 'obsidian';
+import { ProcessingProfile } from '../config/profiles';
+import { renderVariableEditor } from './VariableEditor';
+
+export class ProfileModal extends Modal {
+    private profile: ProcessingProfile;
+    private save: () => Promise<void>;
+    private onDone: () => void;
+
+    constructor(app: App, profile: ProcessingProfile, save: () => Promise<void>, onDone: () => void) {
+        super(app);
+        this.profile = profile;
+        this.save = save;
+        this.onDone = onDone;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const profile = this.profile;
+        contentEl.addClass('handwrite-modal');
+        contentEl.addClass('handwrite-modal--profile');
+
+        contentEl.createEl('h2', { text: 'Edit Processing Profile', cls: 'handwrite-modal__header' });
+
+        new Setting(contentEl)
+            .setName('Name')
+            .addText(text => text
+                .setPlaceholder('Meeting notes')
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    profile.name = value;
+                    await this.save();
+                }));
+
+        new Setting(contentEl)
+            .setName('Source Folders')
+            .setDesc('Files in these folders use this profile automatically (one per line, subfolders included)')
+            .addTextArea(text => {
+                text.setPlaceholder('Scans/Meetings')
+                    .setValue(profile.sourceFolders.join('\n'))
+                    .onChange(async (value) => {
+                        profile.sourceFolders = value
+                            .split('\n')
+                            .map(folder => folder.trim())
+                            .filter(folder => folder.length > 0);
+                        await this.save();
+                    });
+                text.inputEl.rows = 3;
+                return text;
+            });
+
+        new Setting(contentEl)
+            .setName('Model')
+            .setDesc('Model to use instead of the one set for the OCR provider. Leave empty to use the provider model.')
+            .addText(text => text
+                .setValue(profile.model)
+                .onChange(async (value) => {
+                    profile.model = value;
+                    await this.save();
+                }));
+
+        new Setting(contentEl)
+            .setName('Default Tags')
+            .setDesc('Tags to add to notes processed with this profile (comma-separated)')
+            .addText(text => text
+                .setValue(profile.defaultTags.join(', '))
+                .onChange(async (value) => {
+                    profile.defaultTags = value
+                        .split(',')
+                        .map(tag => tag.trim())
+                        .filter(tag => tag.length > 0);
+                    await this.save();
+                }));
+
+        new Setting(contentEl)
+            .setName('Output Folder')
+            .addText(text => text
+                .setValue(profile.outputFolder)
+                .onChange(async (value) => {
+                    profile.outputFolder = value;
+                    await this.save();
+                }));
+
+        new Setting(contentEl)
+            .setName('Filename Template')
+            .addText(text => text
+                .setValue(profile.filenameTemplate)
+                .onChange(async (value) => {
+                    profile.filenameTemplate = value;
+                    await this.save();
+                }));
+
+        new Setting(contentEl)
+            .setName('OCR Prompt')
+            .addTextArea(text => {
+                text.setValue(profile.prompt)
+                    .onChange(async (value) => {
+                        profile.prompt = value;
+                        await this.save();
+                    });
+                text.inputEl.rows = 6;
+                text.inputEl.addClass('handwrite-settings__textarea');
+                return text;
+            });
+
+        new Setting(contentEl)
+            .setName('Note Template')
+            .addTextArea(text => {
+                text.setValue(profile.templateContent)
+                    .onChange(async (value) => {
+                        profile.templateContent = value;
+                        await this.save();
+                    });
+                text.inputEl.rows = 10;
+                text.inputEl.addClass('handwrite-settings__textarea');
+                return text;
+            });
+
+        new Setting(contentEl)
+            .setName('Extractable Variables')
+            .setHeading();
+
+        const variablesContainer = contentEl.createDiv();
+        renderVariableEditor(variablesContainer, profile.extractableVariables, this.save);
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Add Variable')
+                .onClick(async () => {
+                    profile.extractableVariables.push({ name: '', type: 'string', description: '' });
+                    renderVariableEditor(variablesContainer, profile.extractableVariables, this.save);
+                    await this.save();
+                }))
+            .addButton(button => button
+                .setButtonText('Done')
+                .setCta()
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.onDone();
+    }
+}
@@ -0,0 +1,34 @@
+import { App, SuggestModal } from 'obsidian';
+import { ProcessingProfile } from '../config/profiles';
+
+export class ProfileSuggestModal extends SuggestModal<ProcessingProfile> {
+    private profiles: ProcessingProfile[];
+    private onSelect: (profile: ProcessingProfile) => void;
+
+    constructor(app: App, profiles: ProcessingProfile[], onSelect: (profile: ProcessingProfile) => void) {
+        super(app);
+        this.profiles = profiles;
+        this.onSelect = onSelect;
+        this.setPlaceholder('Choose a processing profile...');
+    }
+
+    getSuggestions(query: string): ProcessingProfile[] {
+        return this.profiles.filter(profile => profile.name.toLowerCase().includes(query.toLowerCase()));
+    }
+
+    renderSuggestion(profile: ProcessingProfile, el: HTMLElement) {
+        el.createEl('div', { text: profile.name });
+
+        const folders = profile.sourceFolders.filter(folder => folder.trim());
+        if (folders.length > 0) {
+            el.createEl('small', {
+                text: `Used for ${folders.join(', ')}`,
+                cls: 'mod-faint'
+            });
+        }
+    }
+
+    onChooseSuggestion(profile: ProcessingProfile, evt: MouseEvent | KeyboardEvent) {
+        this.onSelect(profile);
+    }
+}
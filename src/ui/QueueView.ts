@@ -0,0 +1,116 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import HandwritePlugin from '../../main';
+import { Job, JobState } from '../processor/jobQueue';
+import { FAILURE_CATEGORY_LABELS } from '../processor/failureReport';
+
+export const VIEW_TYPE_QUEUE = 'handwrite-queue';
+
+const STATE_ICONS: Record<JobState, string> = {
+    pending: '…',
+    running: '⟳',
+    done: '✓',
+    failed: '✗',
+    cancelled: '–'
+};
+
+// Running and failed jobs are listed first, since they need attention
+const STATE_ORDER: JobState[] = ['running', 'failed', 'pending', 'cancelled', 'done'];
+
+/**
+ * Lists the jobs in the processing queue and lets failed or unfinished ones be
+ * retried.
+ */
+export class QueueView extends ItemView {
+    private plugin: HandwritePlugin;
+
+    constructor(leaf: WorkspaceLeaf, plugin: HandwritePlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_QUEUE;
+    }
+
+    getDisplayText(): string {
+        return 'Processing queue';
+    }
+
+    getIcon(): string {
+        return 'list-checks';
+    }
+
+    async onOpen() {
+        this.registerEvent(this.plugin.jobQueue.on('changed', () => this.render()));
+        this.render();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('handwrite-queue');
+
+        const queue = this.plugin.jobQueue;
+        const jobs = queue.all().sort((a, b) =>
+            STATE_ORDER.indexOf(a.state) - STATE_ORDER.indexOf(b.state) || b.updatedAt.localeCompare(a.updatedAt)
+        );
+        const pending = queue.withState('pending');
+        const failed = queue.withState('failed');
+        const isRunning = queue.withState('running').length > 0;
+
+        const counts = STATE_ORDER
+            .map(state => ({ state, count: jobs.filter(job => job.state === state).length }))
+            .filter(({ count }) => count > 0)
+            .map(({ state, count }) => `${count} ${state}`);
+        contentEl.createEl('p', {
+            text: counts.length > 0 ? counts.join(', ') : 'The queue is empty.',
+            cls: 'handwrite-queue__summary'
+        });
+
+        const buttons = contentEl.createDiv('handwrite-queue__buttons');
+        // Pending jobs of a batch that is still running are picked up by that batch
+        if (pending.length > 0 && !isRunning) {
+            this.createButton(buttons, `Resume ${pending.length} pending`, () => this.plugin.resumeJobs(pending));
+        }
+        if (failed.length > 0) {
+            this.createButton(buttons, `Retry ${failed.length} failed`, () => this.plugin.resumeJobs(failed));
+        }
+        if (jobs.some(job => job.state === 'done' || job.state === 'cancelled')) {
+            this.createButton(buttons, 'Clear finished', () => queue.clearFinished());
+        }
+        if (pending.length > 0 && !isRunning) {
+            this.createButton(buttons, 'Discard pending', () => queue.remove(pending.map(job => job.sourcePath)));
+        }
+
+        const list = contentEl.createEl('ul', { cls: 'handwrite-queue__list' });
+        for (const job of jobs) {
+            this.renderJob(list, job);
+        }
+    }
+
+    private renderJob(list: HTMLElement, job: Job) {
+        const item = list.createEl('li', { cls: `handwrite-queue__job handwrite-queue__job--${job.state}` });
+
+        item.createSpan({ text: STATE_ICONS[job.state], cls: 'handwrite-queue__icon' });
+        const details = item.createDiv('handwrite-queue__details');
+        details.createDiv({ text: job.sourcePath.split('/').pop() ?? job.sourcePath, cls: 'handwrite-queue__name' })
+            .setAttr('title', job.sourcePath);
+
+        if (job.state === 'failed' && job.error) {
+            details.createDiv({ text: `${FAILURE_CATEGORY_LABELS[job.errorCategory ?? 'other']}: ${job.error}`, cls: 'handwrite-queue__error' });
+        } else if (job.state === 'done' && job.outputPath) {
+            details.createDiv({ text: `→ ${job.outputPath}`, cls: 'handwrite-queue__output' });
+        }
+
+        if (job.state === 'failed') {
+            this.createButton(item, 'Retry', () => this.plugin.resumeJobs([job]));
+        } else if (job.state === 'cancelled') {
+            this.createButton(item, 'Resume', () => this.plugin.resumeJobs([job]));
+        }
+    }
+
+    private createButton(container: HTMLElement, text: string, onClick: () => unknown) {
+        const button = container.createEl('button', { text, cls: 'handwrite-queue__button' });
+        button.addEventListener('click', () => onClick());
+    }
+}
@@ -0,0 +1,280 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { FileProcessor, ReviewDecision, ReviewDraft } from '../processor/fileProcessor';
+import { ExtractableVariable, StructuredResponse } from '../ocr/provider';
+import { HandwriteSettings } from '../config/settings';
+import { getFileFormat } from '../formats/registry';
+
+export class ReviewModal extends Modal {
+    private file: TFile;
+    private processor: FileProcessor;
+    private settings: HandwriteSettings;
+    private result: StructuredResponse;
+    private outputFilename: string;
+    private onDecision: (decision: ReviewDecision) => void;
+    private decided = false;
+    private previewEl: HTMLElement;
+    private acceptButton: HTMLButtonElement;
+    // Blob URLs of converted source images, revoked when the modal closes
+    private objectUrls: string[] = [];
+
+    constructor(
+        app: App,
+        file: TFile,
+        draft: ReviewDraft,
+        processor: FileProcessor,
+        onDecision: (decision: ReviewDecision) => void
+    ) {
+        super(app);
+        this.file = file;
+        this.processor = processor;
+        this.settings = draft.settings;
+        // Work on a copy so skipping leaves the original untouched
+        this.result = {
+            ...draft.result,
+            extractedVariables: { ...draft.result.extractedVariables }
+        };
+        this.outputFilename = draft.outputFilename;
+        this.onDecision = onDecision;
+    }
+
+    /**
+     * Opens a review modal and resolves once the user accepts, skips or regenerates.
+     */
+    static review(
+        app: App,
+        file: TFile,
+        draft: ReviewDraft,
+        processor: FileProcessor
+    ): Promise<ReviewDecision> {
+        return new Promise(resolve => {
+            new ReviewModal(app, file, draft, processor, resolve).open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl, modalEl } = this;
+        modalEl.addClass('handwrite-review-modal');
+        contentEl.addClass('handwrite-modal');
+        contentEl.addClass('handwrite-modal--review');
+
+        contentEl.createEl('h2', {
+            text: `Review: ${this.file.name}`,
+            cls: 'handwrite-modal__header'
+        });
+
+        const columns = contentEl.createDiv('handwrite-review__columns');
+
+        // Source preview
+        const sourceEl = columns.createDiv('handwrite-review__source');
+        this.renderSource(sourceEl);
+
+        // Editable fields
+        const editorEl = columns.createDiv('handwrite-review__editor');
+
+        new Setting(editorEl)
+            .setName('Filename')
+            .addText(text => text
+                .setValue(this.outputFilename)
+                .onChange(value => {
+                    this.outputFilename = value;
+                    this.updatePreview();
+                }));
+
+        for (const variable of this.settings.extractableVariables) {
+            if (!variable.name) continue;
+            this.renderVariableInput(editorEl, variable);
+        }
+
+        editorEl.createEl('h3', { text: 'Transcription', cls: 'handwrite-modal__results-header' });
+        const contentInput = editorEl.createEl('textarea', {
+            cls: 'handwrite-review__content'
+        });
+        contentInput.value = this.result.content;
+        contentInput.rows = 14;
+        contentInput.addEventListener('input', () => {
+            this.result.content = contentInput.value;
+            this.updatePreview();
+        });
+
+        editorEl.createEl('h3', { text: 'Note Preview', cls: 'handwrite-modal__results-header' });
+        this.previewEl = editorEl.createEl('pre', { cls: 'handwrite-review__preview' });
+
+        // Buttons
+        const buttonContainer = contentEl.createDiv('handwrite-modal__buttons');
+
+        const acceptButton = buttonContainer.createEl('button', {
+            text: 'Accept',
+            cls: 'handwrite-modal__button handwrite-modal__button--primary'
+        });
+        this.acceptButton = acceptButton;
+        const regenerateButton = buttonContainer.createEl('button', {
+            text: 'Regenerate',
+            cls: 'handwrite-modal__button handwrite-modal__button--secondary'
+        });
+        const skipButton = buttonContainer.createEl('button', {
+            text: 'Skip',
+            cls: 'handwrite-modal__button handwrite-modal__button--secondary'
+        });
+
+        acceptButton.addEventListener('click', () => {
+            this.decide({ action: 'accept', result: this.result, outputFilename: this.outputFilename.trim() });
+        });
+        regenerateButton.addEventListener('click', () => {
+            this.decide({ action: 'regenerate' });
+        });
+        skipButton.addEventListener('click', () => {
+            this.decide({ action: 'skip' });
+        });
+
+        this.updatePreview();
+    }
+
+    /**
+     * Shows the source file. Formats the browser can't display, such as HEIC and
+     * TIFF, are converted the same way they are for transcription.
+     */
+    private async renderSource(container: HTMLElement) {
+        const format = getFileFormat(this.file.extension);
+        const resourcePath = this.app.vault.getResourcePath(this.file);
+        if (format?.mimeType === 'application/pdf') {
+            container.createEl('iframe', {
+                cls: 'handwrite-review__source-frame',
+                attr: { src: resourcePath }
+            });
+            return;
+        }
+        if (!format?.convertImage && !format?.openDocument) {
+            this.createSourceImage(container, resourcePath);
+            return;
+        }
+
+        try {
+            const data = await this.app.vault.readBinary(this.file);
+            if (format.convertImage) {
+                const converted = await format.convertImage(data);
+                this.createSourceImage(container, this.createObjectUrl(converted.data, converted.mimeType));
+            } else if (format.openDocument) {
+                const document = await format.openDocument(data);
+                try {
+                    for (let pageNumber = 1; pageNumber <= document.pageCount; pageNumber++) {
+                        this.createSourceImage(container, this.createObjectUrl(await document.renderPage(pageNumber), 'image/png'));
+                    }
+                } finally {
+                    await document.destroy();
+                }
+            }
+        } catch (error) {
+            container.createDiv({ text: `Preview not available: ${error instanceof Error ? error.message : String(error)}` });
+        }
+    }
+
+    private createSourceImage(container: HTMLElement, src: string) {
+        container.createEl('img', {
+            cls: 'handwrite-review__source-image',
+            attr: { src, alt: this.file.name }
+        });
+    }
+
+    private createObjectUrl(data: Uint8Array, mimeType: string): string {
+        const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+        this.objectUrls.push(url);
+        return url;
+    }
+
+    private renderVariableInput(container: HTMLElement, variable: ExtractableVariable) {
+        const value = this.result.extractedVariables[variable.name];
+        const setting = new Setting(container).setName(variable.name);
+        const update = (newValue: unknown) => {
+            this.result.extractedVariables[variable.name] = newValue;
+            this.updatePreview();
+        };
+
+        switch (variable.type) {
+            case 'boolean':
+                setting.addToggle(toggle => toggle
+                    .setValue(value === true)
+                    .onChange(update));
+                break;
+            case 'enum':
+                setting.addDropdown(dropdown => {
+                    dropdown.addOption('', '');
+                    (variable.options ?? []).forEach(option => dropdown.addOption(option, option));
+                    dropdown
+                        .setValue(typeof value === 'string' ? value : '')
+                        .onChange(newValue => update(newValue || undefined));
+                });
+                break;
+            case 'object':
+            case 'array<object>':
+                setting.setDesc('JSON');
+                setting.addTextArea(text => {
+                    text.setValue(value === undefined ? '' : JSON.stringify(value, null, 2))
+                        .onChange(newValue => {
+                            try {
+                                update(newValue.trim() ? JSON.parse(newValue) : undefined);
+                                setting.setDesc('JSON');
+                            } catch (error) {
+                                // Keep the last valid value until the JSON parses again
+                                setting.setDesc('Invalid JSON');
+                            }
+                        });
+                    text.inputEl.rows = 4;
+                    return text;
+                });
+                break;
+            default:
+                setting.setDesc(variable.type === 'array' ? 'Comma-separated' : variable.type === 'date' ? 'YYYY-MM-DD' : '');
+                setting.addText(text => text
+                    .setValue(Array.isArray(value) ? value.join(', ') : value === undefined || value === null ? '' : String(value))
+                    .onChange(newValue => update(this.parseVariableValue(variable, newValue))));
+        }
+    }
+
+    private parseVariableValue(variable: ExtractableVariable, value: string): unknown {
+        switch (variable.type) {
+            case 'array':
+                return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+            case 'number': {
+                const parsed = parseFloat(value);
+                return isNaN(parsed) ? value : parsed;
+            }
+            default:
+                return value;
+        }
+    }
+
+    /**
+     * Renders the note as it will be written. While it can't be rendered, for
+     * example because of a template error, the error is shown and it can't be
+     * accepted.
+     */
+    private updatePreview() {
+        try {
+            const draft = this.processor.renderNote(this.file, this.result, this.outputFilename.trim(), this.settings);
+            this.previewEl.setText(`${draft.outputPath}\n\n${draft.content}`);
+            this.previewEl.removeClass('handwrite-review__preview--error');
+            this.acceptButton.disabled = false;
+        } catch (error) {
+            this.previewEl.setText(`The note can't be rendered: ${error instanceof Error ? error.message : String(error)}`);
+            this.previewEl.addClass('handwrite-review__preview--error');
+            this.acceptButton.disabled = true;
+        }
+    }
+
+    private decide(decision: ReviewDecision) {
+        this.decided = true;
+        this.onDecision(decision);
+        this.close();
+    }
+
+    onClose() {
+        // Dismissing the modal counts as skipping the file
+        if (!this.decided) {
+            this.decided = true;
+            this.onDecision({ action: 'skip' });
+        }
+        this.contentEl.empty();
+        this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+        this.objectUrls = [];
+    }
+}
@@ -1,7 +1,15 @@
 import { App, PluginSettingTab, Setting, TextAreaComponent, ToggleComponent } from 'obsidian';
 import HandwritePlugin from '../../main';
-import { ExtractableVariable } from '../gemini/client';
+import { ExtractableVariable, OcrProviderType } from '../ocr/provider';
 import { EXAMPLE_EXTRACTABLE_VARIABLES } from '../config/settings';
+import { FilenameCollision, OutputMode } from '../processor/outputTarget';
+import { renderVariableEditor } from './VariableEditor';
+import { ProfileModal } from './ProfileModal';
+import { createProfile } from '../config/profiles';
+import { EmbedOutputStyle } from '../processor/embeddedImages';
+import { PreprocessFormat, formatBytes } from '../processor/imagePreprocess';
+import { ModelPrice, formatCost } from '../processor/usageLog';
+import { DEFAULT_MAX_FILENAME_LENGTH } from '../template/renderer';
 
 export class HandwriteSettingTab extends PluginSettingTab {
     plugin: HandwritePlugin;
@@ -19,41 +27,32 @@ export class HandwriteSettingTab extends PluginSettingTab {
         this.createSection(containerEl, 'API Configuration');
 
         new Setting(containerEl)
-            .setName('Gemini API Key')
-            .setDesc('Your Google Gemini API key')
-            .addText(text => text
-                .setPlaceholder('Enter your API key')
-                .setValue(this.plugin.settings.geminiApiKey)
-                .onChange(async (value) => {
-                    this.plugin.settings.geminiApiKey = value;
-                    await this.plugin.saveSettings();
-                }))
-;
-
-        new Setting(containerEl)
-            .setName('Gemini Model')
-            .setDesc('The Gemini model to use for OCR')
+            .setName('OCR Provider')
+            .setDesc('The service used to transcribe your notes')
             .addDropdown(dropdown => dropdown
-                .addOption('gemini-3-pro-preview', 'Gemini 3 Pro Preview (Most Advanced)')
-                .addOption('gemini-3-flash-preview', 'Gemini 3 Flash Preview')
-                .addOption('gemini-2.5-flash-preview-05-20', 'Gemini 2.5 Flash (Recommended - Fast)')
-                .addOption('gemini-2.5-pro-preview-06-05', 'Gemini 2.5 Pro')
-                .addOption('gemini-2.0-flash', 'Gemini 2.0 Flash (Legacy)')
-                .addOption('gemini-1.5-flash', 'Gemini 1.5 Flash (Legacy)')
-                .addOption('gemini-1.5-pro', 'Gemini 1.5 Pro (Legacy)')
-                .setValue(this.plugin.settings.geminiModel)
+                .addOption('gemini', 'Google Gemini')
+                .addOption('openai-compatible', 'OpenAI-compatible endpoint (OpenAI, Ollama, llama.cpp)')
+                .setValue(this.plugin.settings.ocrProvider)
                 .onChange(async (value) => {
-                    this.plugin.settings.geminiModel = value;
+                    this.plugin.settings.ocrProvider = value as OcrProviderType;
                     await this.plugin.saveSettings();
+                    // Show the fields for the selected provider
+                    this.display();
                 }))
 ;
 
+        if (this.plugin.settings.ocrProvider === 'openai-compatible') {
+            this.renderOpenAISettings(containerEl);
+        } else {
+            this.renderGeminiSettings(containerEl);
+        }
+
         // OCR Settings Section
         this.createSection(containerEl, 'OCR Configuration');
 
         const ocrPromptSetting = new Setting(containerEl)
             .setName('OCR Prompt')
-            .setDesc('The prompt sent to Gemini for text extraction')
+            .setDesc('The prompt sent to the OCR provider for text extraction')
             .addTextArea(text => {
                 text.setPlaceholder('Enter OCR prompt')
                     .setValue(this.plugin.settings.prompt)
@@ -147,7 +146,8 @@ export class HandwriteSettingTab extends PluginSettingTab {
             ['{{markdownLink}}', 'Markdown link to source file'],
             ['{{dateProcessed}}', 'When the file was processed'],
             ['{{pageCount}}', 'Number of pages processed'],
-            ['{{modelUsed}}', 'Gemini model used']
+            ['{{modelUsed}}', 'Model used for transcription'],
+            ['{{tokensUsed}}', 'Input and output tokens used for transcription']
         ];
         
         templateVariables.forEach(([varName, desc]) => {
@@ -158,6 +158,23 @@ export class HandwriteSettingTab extends PluginSettingTab {
         
         templateDesc.createDiv({text: 'Also available: any variables extracted from your documents.'});
 
+        const syntaxSection = templateDesc.createDiv({cls: 'handwrite-settings__var-section'});
+        syntaxSection.createEl('strong', {text: 'Template syntax:'});
+        const syntaxList = templateDesc.createEl('ul', {cls: 'handwrite-settings__var-list'});
+
+        const syntaxExamples = [
+            ['{{#if author}}...{{else}}...{{/if}}', 'Only include a section when a value was extracted'],
+            ['{{#each topics}}- {{this}}{{/each}}', 'Repeat a section for every item in a list'],
+            ['{{author | default: "unknown"}}', 'Fallback for missing values (missing values are otherwise empty)'],
+            ['{{dateProcessed | date: "YYYY-MM-DD"}}', 'Filters: date, default, slug, join, upper, lower, wikilink']
+        ];
+
+        syntaxExamples.forEach(([example, desc]) => {
+            const li = syntaxList.createEl('li');
+            li.createEl('code', {text: example});
+            li.appendText(' - ' + desc);
+        });
+
         const filenameSetting = new Setting(containerEl)
             .setName('Filename Template')
             .setDesc('')
@@ -191,24 +208,79 @@ export class HandwriteSettingTab extends PluginSettingTab {
             li.appendText(' - ' + desc);
         });
         
-        filenameDesc.createDiv({text: 'Also available: any variables extracted from your documents.'})
+        filenameDesc.createDiv({text: 'Also available: any variables extracted from your documents. Use / in the template for subfolders (e.g. {{course}}/{{date_composed}}.md); they are created as needed. Characters that are not allowed in file names are replaced with a dash.'})
+;
+
+        new Setting(containerEl)
+            .setName('Existing Notes')
+            .setDesc('What to do when a note with the generated name already exists')
+            .addDropdown(dropdown => dropdown
+                .addOption('counter', 'Add a number ("Note 1")')
+                .addOption('secondsBase36', 'Add a time suffix ("Note k3x")')
+                .addOption('skip', 'Skip the file')
+                .addOption('overwrite', 'Overwrite the note')
+                .setValue(this.plugin.settings.filenameCollision)
+                .onChange(async (value) => {
+                    this.plugin.settings.filenameCollision = value as FilenameCollision;
+                    await this.plugin.saveSettings();
+                }))
 ;
 
+        new Setting(containerEl)
+            .setName('Maximum Name Length')
+            .setDesc('Longer file and folder names are shortened to this many characters')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_MAX_FILENAME_LENGTH))
+                .setValue(String(this.plugin.settings.maxFilenameLength))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (!isNaN(parsed) && parsed >= 10 && parsed <= 255) {
+                        this.plugin.settings.maxFilenameLength = parsed;
+                        await this.plugin.saveSettings();
+                    }
+                }))
+;
+
+        // Profiles Section
+        this.createSection(containerEl, 'Processing Profiles');
+        this.renderProfiles(containerEl);
+
         // Output Section
         this.createSection(containerEl, 'Output Configuration');
 
         new Setting(containerEl)
-            .setName('Output Folder')
-            .setDesc('The folder where processed notes will be saved')
-            .addText(text => text
-                .setPlaceholder('Handwritten Notes')
-                .setValue(this.plugin.settings.outputFolder)
+            .setName('Output Mode')
+            .setDesc('Where transcriptions are written')
+            .addDropdown(dropdown => dropdown
+                .addOption('create', 'Create a new note')
+                .addOption('append', 'Append to an existing note')
+                .addOption('prepend', 'Prepend to an existing note')
+                .addOption('daily-note', "Insert into today's daily note")
+                .setValue(this.plugin.settings.outputMode)
                 .onChange(async (value) => {
-                    this.plugin.settings.outputFolder = value;
+                    this.plugin.settings.outputMode = value as OutputMode;
                     await this.plugin.saveSettings();
+                    // Show the fields for the selected mode
+                    this.display();
                 }))
 ;
 
+        if (this.plugin.settings.outputMode === 'create') {
+            new Setting(containerEl)
+                .setName('Output Folder')
+                .setDesc('The folder where processed notes will be saved. Can use the filename template variables, e.g. Courses/{{course}}/Notes')
+                .addText(text => text
+                    .setPlaceholder('Handwritten Notes')
+                    .setValue(this.plugin.settings.outputFolder)
+                    .onChange(async (value) => {
+                        this.plugin.settings.outputFolder = value;
+                        await this.plugin.saveSettings();
+                    }))
+;
+        } else {
+            this.renderSectionOutputSettings(containerEl);
+        }
+
         new Setting(containerEl)
             .setName('Move Files After Processing')
             .setDesc('Move source files to a different folder after successful transcription')
@@ -222,7 +294,7 @@ export class HandwriteSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('Processed Files Folder')
-            .setDesc('The folder where processed source files will be moved (only if "Move Files After Processing" is enabled)')
+            .setDesc('The folder where processed source files will be moved (only if "Move Files After Processing" is enabled). Can use the filename template variables, e.g. Courses/{{course}}/Scans/{{dateProcessed|YYYY-MM}}')
             .addText(text => text
                 .setPlaceholder('Processed Handwritten Files')
                 .setValue(this.plugin.settings.processedFilesFolder)
@@ -232,6 +304,97 @@ export class HandwriteSettingTab extends PluginSettingTab {
                 }))
 ;
 
+        new Setting(containerEl)
+            .setName('Fallback Folder')
+            .setDesc('Used instead of the output or processed files folder when a variable in that folder has no value')
+            .addText(text => text
+                .setPlaceholder('Unsorted')
+                .setValue(this.plugin.settings.fallbackFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.fallbackFolder = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        // Embedded Images Section
+        this.createSection(containerEl, 'Embedded Images');
+
+        new Setting(containerEl)
+            .setName('Transcription Style')
+            .setDesc('How "Transcribe embedded images" adds the text of images embedded in a note')
+            .addDropdown(dropdown => dropdown
+                .addOption('callout', 'Callout below the image')
+                .addOption('quote', 'Quote block below the image')
+                .addOption('replace', 'Replace the image with its text')
+                .setValue(this.plugin.settings.embedOutputStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.embedOutputStyle = value as EmbedOutputStyle;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        // Inbox Section
+        this.createSection(containerEl, 'Inbox Folder');
+
+        new Setting(containerEl)
+            .setName('Watch Inbox Folder')
+            .setDesc('Automatically process new supported files as they appear in the inbox folder')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.watchFolderEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.watchFolderEnabled = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Inbox Folder')
+            .setDesc('The folder to watch for new scans (subfolders are included)')
+            .addText(text => text
+                .setPlaceholder('Inbox/Scans')
+                .setValue(this.plugin.settings.watchFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.watchFolder = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Inbox Debounce (seconds)')
+            .setDesc('How long a new file must stay unchanged before it is processed. Increase this if your sync client writes large files slowly.')
+            .addSlider(slider => slider
+                .setLimits(1, 30, 1)
+                .setValue(this.plugin.settings.watchDebounceMs / 1000)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.watchDebounceMs = value * 1000;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        // Image Preprocessing Section
+        this.createSection(containerEl, 'Image Preprocessing');
+
+        new Setting(containerEl)
+            .setName('Preprocess Images')
+            .setDesc('Rotate, shrink and re-encode images (and rendered PDF pages) before uploading them. Cuts upload time and token cost for large phone photos.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.preprocessImages)
+                .onChange(async (value) => {
+                    this.plugin.settings.preprocessImages = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+;
+
+        if (this.plugin.settings.preprocessImages) {
+            this.renderPreprocessSettings(containerEl);
+        }
+
+        // Usage Section
+        this.createSection(containerEl, 'Usage and Costs');
+        this.renderUsage(containerEl);
+
         // Processing Section
         this.createSection(containerEl, 'Processing Options');
 
@@ -248,6 +411,57 @@ export class HandwriteSettingTab extends PluginSettingTab {
                 }))
 ;
 
+        new Setting(containerEl)
+            .setName('Max Retries')
+            .setDesc('How many times to retry a request after rate limiting (429) or a temporary server error')
+            .addSlider(slider => slider
+                .setLimits(0, 10, 1)
+                .setValue(this.plugin.settings.maxRetries)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.maxRetries = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Requests per Minute')
+            .setDesc('Maximum requests sent to the OCR provider per minute, shared by all workers. Set to 0 for no limit.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.requestsPerMinute))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    this.plugin.settings.requestsPerMinute = isNaN(parsed) || parsed < 0 ? 0 : parsed;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Split PDFs into Pages')
+            .setDesc('Transcribe each PDF page separately and in parallel. A failed page does not discard the others. Turn off to send the whole PDF in a single request.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.splitPdfPages)
+                .onChange(async (value) => {
+                    this.plugin.settings.splitPdfPages = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Page Separator')
+            .setDesc('Inserted between the transcribed pages of a PDF. Use {{page}} for the number of the page that follows, e.g. "## Page {{page}}"; a separator with {{page}} is also put before the first page.')
+            .addTextArea(text => {
+                text.setPlaceholder('---')
+                    .setValue(this.plugin.settings.pageSeparator)
+                    .onChange(async (value) => {
+                        this.plugin.settings.pageSeparator = value;
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.rows = 3;
+                return text;
+            });
+
         new Setting(containerEl)
             .setName('Show Progress Bar')
             .setDesc('Display a progress bar during batch processing')
@@ -270,6 +484,17 @@ export class HandwriteSettingTab extends PluginSettingTab {
                 }))
 ;
 
+        new Setting(containerEl)
+            .setName('Review Before Writing')
+            .setDesc('Show each transcription next to its source so you can correct the text, variables and filename before the note is created. Can also be toggled per run.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.reviewBeforeWrite)
+                .onChange(async (value) => {
+                    this.plugin.settings.reviewBeforeWrite = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
         new Setting(containerEl)
             .setName('Auto-open Created Notes')
             .setDesc('Automatically open processed notes in a new tab after successful transcription')
@@ -281,6 +506,17 @@ export class HandwriteSettingTab extends PluginSettingTab {
                 }))
 ;
 
+        const ledgerSetting = new Setting(containerEl)
+            .setName('Processing Ledger')
+            .setDesc(`Unchanged files that were already transcribed are skipped. ${this.plugin.ledger.size} file${this.plugin.ledger.size === 1 ? '' : 's'} recorded.`)
+            .addButton(button => button
+                .setButtonText('Clear Ledger')
+                .setWarning()
+                .onClick(async () => {
+                    await this.plugin.ledger.clear();
+                    ledgerSetting.setDesc('Unchanged files that were already transcribed are skipped. 0 files recorded.');
+                }));
+
         // Examples Section
         this.createSection(containerEl, 'Variable Examples');
 
@@ -302,7 +538,7 @@ export class HandwriteSettingTab extends PluginSettingTab {
                     v => v.name === example.name
                 );
                 if (!exists) {
-                    this.plugin.settings.extractableVariables.push({ ...example });
+                    this.plugin.settings.extractableVariables.push(JSON.parse(JSON.stringify(example)));
                     this.renderExtractableVariables(variablesContainer);
                     this.plugin.saveSettings();
                 }
@@ -310,77 +546,346 @@ export class HandwriteSettingTab extends PluginSettingTab {
         });
     }
 
-    private createSection(container: HTMLElement, title: string) {
-        new Setting(container)
-            .setName(title)
-            .setHeading();
+    private renderGeminiSettings(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('Gemini API Key')
+            .setDesc('Your Google Gemini API key')
+            .addText(text => text
+                .setPlaceholder('Enter your API key')
+                .setValue(this.plugin.settings.geminiApiKey)
+                .onChange(async (value) => {
+                    this.plugin.settings.geminiApiKey = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Gemini Model')
+            .setDesc('The Gemini model to use for OCR')
+            .addDropdown(dropdown => dropdown
+                .addOption('gemini-3-pro-preview', 'Gemini 3 Pro Preview (Most Advanced)')
+                .addOption('gemini-3-flash-preview', 'Gemini 3 Flash Preview')
+                .addOption('gemini-2.5-flash-preview-05-20', 'Gemini 2.5 Flash (Recommended - Fast)')
+                .addOption('gemini-2.5-pro-preview-06-05', 'Gemini 2.5 Pro')
+                .addOption('gemini-2.0-flash', 'Gemini 2.0 Flash (Legacy)')
+                .addOption('gemini-1.5-flash', 'Gemini 1.5 Flash (Legacy)')
+                .addOption('gemini-1.5-pro', 'Gemini 1.5 Pro (Legacy)')
+                .setValue(this.plugin.settings.geminiModel)
+                .onChange(async (value) => {
+                    this.plugin.settings.geminiModel = value;
+                    await this.plugin.saveSettings();
+                }))
+;
     }
 
-    private renderExtractableVariables(container: HTMLElement) {
-        container.empty();
+    private renderOpenAISettings(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('Endpoint URL')
+            .setDesc('Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp')
+            .addText(text => text
+                .setPlaceholder('http://localhost:11434/v1')
+                .setValue(this.plugin.settings.openaiBaseUrl)
+                .onChange(async (value) => {
+                    this.plugin.settings.openaiBaseUrl = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('API Key')
+            .setDesc('Optional for local servers')
+            .addText(text => text
+                .setPlaceholder('Enter your API key')
+                .setValue(this.plugin.settings.openaiApiKey)
+                .onChange(async (value) => {
+                    this.plugin.settings.openaiApiKey = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Model')
+            .setDesc('Name of a vision-capable model served by the endpoint')
+            .addText(text => text
+                .setPlaceholder('llama3.2-vision')
+                .setValue(this.plugin.settings.openaiModel)
+                .onChange(async (value) => {
+                    this.plugin.settings.openaiModel = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+    }
+
+    private renderProfiles(containerEl: HTMLElement) {
+        containerEl.createEl('p', {
+            text: 'Profiles bundle a prompt, extractable variables, templates, output folder, model and tags. Pick one when processing, or tie it to source folders so matching files use it automatically. Files without a profile use the settings on this page.',
+            cls: 'setting-item-description'
+        });
+
+        const profiles = this.plugin.settings.profiles;
+        const save = () => this.plugin.saveSettings();
+
+        profiles.forEach((profile, index) => {
+            const folders = profile.sourceFolders.filter(folder => folder.trim());
+            new Setting(containerEl)
+                .setName(profile.name || 'Untitled profile')
+                .setDesc(folders.length > 0 ? `Used for ${folders.join(', ')}` : 'Chosen manually')
+                .addButton(button => button
+                    .setButtonText('Edit')
+                    .onClick(() => {
+                        new ProfileModal(this.app, profile, save, () => this.display()).open();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('x')
+                    .setTooltip('Delete profile')
+                    .onClick(async () => {
+                        profiles.splice(index, 1);
+                        await save();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Add Profile')
+            .setDesc('Create a profile starting from the current settings')
+            .addButton(button => button
+                .setButtonText('Add Profile')
+                .onClick(async () => {
+                    const profile = createProfile(this.plugin.settings, `Profile ${profiles.length + 1}`);
+                    profiles.push(profile);
+                    await save();
+                    new ProfileModal(this.app, profile, save, () => this.display()).open();
+                }))
+;
+    }
 
-        if (this.plugin.settings.extractableVariables.length === 0) {
-            container.createEl('p', {
-                text: 'No extractable variables defined. Click "Add Variable" to create one. For example, add "date_composed" to extract dates from your notes.',
+    private renderUsage(containerEl: HTMLElement) {
+        const months = this.plugin.usageLog.entries().slice(0, 12);
+        if (months.length === 0) {
+            containerEl.createEl('p', {
+                text: 'No tokens used yet.',
                 cls: 'setting-item-description'
             });
-            return;
+        }
+        for (const [month, usage] of months) {
+            new Setting(containerEl)
+                .setName(month)
+                .setDesc(`${usage.transcriptions} transcription${usage.transcriptions === 1 ? '' : 's'}, ${usage.inputTokens.toLocaleString()} input and ${usage.outputTokens.toLocaleString()} output tokens, est. ${formatCost(usage.cost)}`);
         }
 
-        this.plugin.settings.extractableVariables.forEach((variable, index) => {
-            const setting = new Setting(container)
+        if (months.length > 0) {
+            new Setting(containerEl)
+                .setName('Clear Usage Log')
+                .addButton(button => button
+                    .setButtonText('Clear')
+                    .setWarning()
+                    .onClick(async () => {
+                        await this.plugin.usageLog.clear();
+                        this.display();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Monthly Budget (USD)')
+            .setDesc('Batches stop starting new files once the estimated cost this month reaches this amount. Set to 0 for no limit.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.monthlyBudget))
+                .onChange(async (value) => {
+                    const parsed = parseFloat(value);
+                    this.plugin.settings.monthlyBudget = isNaN(parsed) || parsed < 0 ? 0 : parsed;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        containerEl.createEl('p', {
+            text: 'Prices in USD per million input and output tokens, used to estimate costs. A price applies to every model whose name starts with the given model, and the longest match wins. Models without a price are counted as free.',
+            cls: 'setting-item-description'
+        });
+
+        // Replace the list rather than editing it, since it may still be the defaults' array
+        const updatePrices = async (update: (prices: ModelPrice[]) => ModelPrice[]) => {
+            this.plugin.settings.tokenPrices = update(this.plugin.settings.tokenPrices);
+            await this.plugin.saveSettings();
+        };
+        const parsePrice = (value: string) => {
+            const parsed = parseFloat(value);
+            return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+        };
+
+        this.plugin.settings.tokenPrices.forEach((price, index) => {
+            const setting = new Setting(containerEl)
+                .addText(text => text
+                    .setPlaceholder('Model')
+                    .setValue(price.model)
+                    .onChange(value => updatePrices(prices => prices.map((p, i) => i === index ? { ...p, model: value } : p))))
+                .addText(text => text
+                    .setPlaceholder('Input')
+                    .setValue(String(price.inputPerMillion))
+                    .onChange(value => updatePrices(prices => prices.map((p, i) => i === index ? { ...p, inputPerMillion: parsePrice(value) } : p))))
+                .addText(text => text
+                    .setPlaceholder('Output')
+                    .setValue(String(price.outputPerMillion))
+                    .onChange(value => updatePrices(prices => prices.map((p, i) => i === index ? { ...p, outputPerMillion: parsePrice(value) } : p))))
                 .addExtraButton(button => button
                     .setIcon('x')
-                    .setTooltip('Remove variable')
+                    .setTooltip('Remove price')
                     .onClick(async () => {
-                        this.plugin.settings.extractableVariables.splice(index, 1);
-                        this.renderExtractableVariables(container);
-                        await this.plugin.saveSettings();
+                        await updatePrices(prices => prices.filter((_, i) => i !== index));
+                        this.display();
                     }));
+            setting.settingEl.addClass('handwrite-settings__price');
+        });
 
-            // Add custom controls for the variable
-            const wrapper = setting.controlEl.createDiv({cls: 'handwrite-settings__variable-controls'});
-            
-            // Name input
-            const nameInput = wrapper.createEl('input', {
-                type: 'text',
-                value: variable.name,
-                placeholder: 'variable_name',
-                cls: 'setting-text'
-            });
-            nameInput.addClass('handwrite-settings__variable-name');
-            nameInput.addEventListener('input', async (e) => {
-                variable.name = (e.target as HTMLInputElement).value;
-                await this.plugin.saveSettings();
-            });
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add Price')
+                .onClick(async () => {
+                    await updatePrices(prices => [...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }]);
+                    this.display();
+                }))
+;
+    }
 
-            // Type select
-            const typeSelect = wrapper.createEl('select', {
-                cls: 'dropdown'
-            });
-            typeSelect.addClass('handwrite-settings__variable-type');
-            ['string', 'array', 'number'].forEach(type => {
-                const option = typeSelect.createEl('option', { text: type, value: type });
-                if (type === variable.type) option.selected = true;
-            });
-            typeSelect.addEventListener('change', async (e) => {
-                variable.type = (e.target as HTMLSelectElement).value as 'string' | 'array' | 'number';
-                await this.plugin.saveSettings();
+    private renderSectionOutputSettings(containerEl: HTMLElement) {
+        if (this.plugin.settings.outputMode === 'daily-note') {
+            containerEl.createEl('p', {
+                text: 'Uses the folder, date format and template of the core Daily Notes plugin. The daily note is created if it does not exist yet.',
+                cls: 'setting-item-description'
             });
+        } else {
+            new Setting(containerEl)
+                .setName('Target Note')
+                .setDesc('Path of the note transcriptions are added to. It is created if it does not exist.')
+                .addText(text => text
+                    .setPlaceholder('Journal/Scans.md')
+                    .setValue(this.plugin.settings.targetNotePath)
+                    .onChange(async (value) => {
+                        this.plugin.settings.targetNotePath = value;
+                        await this.plugin.saveSettings();
+                    }))
+;
+        }
 
-            // Description input
-            const descInput = wrapper.createEl('input', {
-                type: 'text',
-                value: variable.description,
-                placeholder: 'e.g., "Look for a date in the top right corner"',
-                cls: 'setting-text'
-            });
-            descInput.addClass('handwrite-settings__variable-description');
-            descInput.addEventListener('input', async (e) => {
-                variable.description = (e.target as HTMLInputElement).value;
-                await this.plugin.saveSettings();
+        new Setting(containerEl)
+            .setName('Target Heading')
+            .setDesc('Insert under this heading, which is added to the end of the note if missing. Leave empty to use the end of the note (append and daily note) or the start, after any frontmatter (prepend).')
+            .addText(text => text
+                .setPlaceholder('## Handwritten')
+                .setValue(this.plugin.settings.targetHeading)
+                .onChange(async (value) => {
+                    this.plugin.settings.targetHeading = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Section Template')
+            .setDesc('The template for the section inserted into the target note. Supports the same variables and syntax as the note template.')
+            .addTextArea(text => {
+                text.setValue(this.plugin.settings.sectionTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.sectionTemplate = value;
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.rows = 6;
+                text.inputEl.addClass('handwrite-settings__textarea');
+                return text;
             });
-        });
+    }
+
+    private renderPreprocessSettings(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('Maximum Dimension')
+            .setDesc('Larger images are scaled down so their longest side fits, in pixels. Set to 0 to keep the original size.')
+            .addText(text => text
+                .setPlaceholder('2048')
+                .setValue(String(this.plugin.settings.preprocessMaxDimension))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    this.plugin.settings.preprocessMaxDimension = isNaN(parsed) || parsed < 0 ? 0 : parsed;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Grayscale')
+            .setDesc('Remove color, which can help with photos taken under colored light')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.preprocessGrayscale)
+                .onChange(async (value) => {
+                    this.plugin.settings.preprocessGrayscale = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Contrast (%)')
+            .setDesc('Boost contrast for faint pencil or dark photos. 100 leaves the image unchanged.')
+            .addSlider(slider => slider
+                .setLimits(100, 200, 10)
+                .setValue(this.plugin.settings.preprocessContrast)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.preprocessContrast = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Format')
+            .setDesc('Format images are re-encoded to before upload')
+            .addDropdown(dropdown => dropdown
+                .addOption('image/jpeg', 'JPEG')
+                .addOption('image/webp', 'WebP')
+                .setValue(this.plugin.settings.preprocessFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.preprocessFormat = value as PreprocessFormat;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        new Setting(containerEl)
+            .setName('Quality (%)')
+            .setDesc('Encoder quality. Lower values give smaller uploads but can blur fine strokes.')
+            .addSlider(slider => slider
+                .setLimits(50, 100, 5)
+                .setValue(this.plugin.settings.preprocessQuality)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.preprocessQuality = value;
+                    await this.plugin.saveSettings();
+                }))
+;
+
+        const statsSetting = new Setting(containerEl)
+            .setName('Size Statistics')
+            .setDesc(this.describePreprocessStats())
+            .addButton(button => button
+                .setButtonText('Reset')
+                .onClick(async () => {
+                    await this.plugin.preprocessLog.clear();
+                    statsSetting.setDesc(this.describePreprocessStats());
+                }));
+    }
+
+    private describePreprocessStats(): string {
+        const { files, originalBytes, processedBytes } = this.plugin.preprocessLog.totals;
+        if (files === 0) {
+            return 'No images preprocessed yet.';
+        }
+        const saved = originalBytes > 0 ? Math.round((1 - processedBytes / originalBytes) * 100) : 0;
+        return `${files} image${files === 1 ? '' : 's'} preprocessed: ${formatBytes(originalBytes)} before, ${formatBytes(processedBytes)} after (${saved}% smaller).`;
+    }
+
+    private createSection(container: HTMLElement, title: string) {
+        new Setting(container)
+            .setName(title)
+            .setHeading();
+    }
+
+    private renderExtractableVariables(container: HTMLElement) {
+        renderVariableEditor(container, this.plugin.settings.extractableVariables, () => this.plugin.saveSettings());
     }
 
 }
@@ -0,0 +1,124 @@
+import { Setting } from 'obsidian';
+import { ExtractableVariable, ExtractableVariableType } from '../ocr/provider';
+
+const VARIABLE_TYPES: ExtractableVariableType[] = ['string', 'number', 'boolean', 'date', 'enum', 'array', 'object', 'array<object>'];
+// Object fields can't contain further objects
+const FIELD_TYPES: ExtractableVariableType[] = ['string', 'number', 'boolean', 'date', 'enum', 'array'];
+
+/**
+ * Renders editable rows for a list of extractable variables. Used for the global
+ * variables and for those of each processing profile, and for the fields of
+ * object variables.
+ */
+export function renderVariableEditor(
+    container: HTMLElement,
+    variables: ExtractableVariable[],
+    save: () => Promise<void> | void,
+    isField = false
+) {
+    container.empty();
+
+    if (variables.length === 0) {
+        if (!isField) {
+            container.createEl('p', {
+                text: 'No extractable variables defined. Click "Add Variable" to create one. For example, add "date_composed" to extract dates from your notes.',
+                cls: 'setting-item-description'
+            });
+        }
+        return;
+    }
+
+    variables.forEach((variable, index) => {
+        const setting = new Setting(container)
+            .addExtraButton(button => button
+                .setIcon('x')
+                .setTooltip(isField ? 'Remove field' : 'Remove variable')
+                .onClick(async () => {
+                    variables.splice(index, 1);
+                    renderVariableEditor(container, variables, save, isField);
+                    await save();
+                }));
+        if (isField) {
+            setting.settingEl.addClass('handwrite-settings__variable-field');
+        }
+
+        // Add custom controls for the variable
+        const wrapper = setting.controlEl.createDiv({cls: 'handwrite-settings__variable-controls'});
+
+        // Name input
+        const nameInput = wrapper.createEl('input', {
+            type: 'text',
+            value: variable.name,
+            placeholder: isField ? 'field_name' : 'variable_name',
+            cls: 'setting-text'
+        });
+        nameInput.addClass('handwrite-settings__variable-name');
+        nameInput.addEventListener('input', async (e) => {
+            variable.name = (e.target as HTMLInputElement).value;
+            await save();
+        });
+
+        // Type select
+        const typeSelect = wrapper.createEl('select', {
+            cls: 'dropdown'
+        });
+        typeSelect.addClass('handwrite-settings__variable-type');
+        (isField ? FIELD_TYPES : VARIABLE_TYPES).forEach(type => {
+            const option = typeSelect.createEl('option', { text: type, value: type });
+            if (type === variable.type) option.selected = true;
+        });
+        typeSelect.addEventListener('change', async (e) => {
+            variable.type = (e.target as HTMLSelectElement).value as ExtractableVariableType;
+            // Show the options or fields editor for the new type
+            renderVariableEditor(container, variables, save, isField);
+            await save();
+        });
+
+        // Description input
+        const descInput = wrapper.createEl('input', {
+            type: 'text',
+            value: variable.description,
+            placeholder: 'e.g., "Look for a date in the top right corner"',
+            cls: 'setting-text'
+        });
+        descInput.addClass('handwrite-settings__variable-description');
+        descInput.addEventListener('input', async (e) => {
+            variable.description = (e.target as HTMLInputElement).value;
+            await save();
+        });
+
+        if (variable.type === 'enum') {
+            const optionsInput = wrapper.createEl('input', {
+                type: 'text',
+                value: (variable.options ?? []).join(', '),
+                placeholder: 'Allowed values, e.g. "low, medium, high"',
+                cls: 'setting-text'
+            });
+            optionsInput.addClass('handwrite-settings__variable-options');
+            optionsInput.addEventListener('input', async (e) => {
+                variable.options = (e.target as HTMLInputElement).value
+                    .split(',')
+                    .map(option => option.trim())
+                    .filter(option => option.length > 0);
+                await save();
+            });
+        }
+
+        if (variable.type === 'object' || variable.type === 'array<object>') {
+            const fields = variable.fields ?? (variable.fields = []);
+            const fieldsContainer = container.createDiv({cls: 'handwrite-settings__variable-fields'});
+            const fieldsList = fieldsContainer.createDiv();
+            renderVariableEditor(fieldsList, fields, save, true);
+
+            new Setting(fieldsContainer)
+                .setDesc(`Fields of each ${variable.name || 'item'}`)
+                .addButton(button => button
+                    .setButtonText('Add Field')
+                    .onClick(async () => {
+                        fields.push({ name: '', type: 'string', description: '' });
+                        renderVariableEditor(fieldsList, fields, save, true);
+                        await save();
+                    }));
+        }
+    });
+}
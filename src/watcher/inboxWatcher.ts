@@ -0,0 +1,173 @@
+import { TAbstractFile, TFile, Notice, normalizePath } from 'obsidian';
+import HandwritePlugin from '../../main';
+import { FileProcessor, ProcessingResult } from '../processor/fileProcessor';
+import { getProviderConfigError } from '../ocr/factory';
+import { BatchController } from '../processor/batchControl';
+import { isSupportedExtension } from '../formats/registry';
+
+export class InboxWatcher {
+    private plugin: HandwritePlugin;
+    private statusBarEl: HTMLElement;
+    // Files that were created recently and may still be written to
+    private pending = new Map<string, { timer: number; size: number }>();
+    private queue: TFile[] = [];
+    // Files of the current batch that haven't started yet, and those in flight
+    private waiting = 0;
+    private running = 0;
+    private isDraining = false;
+    private controller: BatchController | null = null;
+
+    constructor(plugin: HandwritePlugin) {
+        this.plugin = plugin;
+    }
+
+    start() {
+        this.statusBarEl = this.plugin.addStatusBarItem();
+        this.statusBarEl.addClass('handwrite-status-bar');
+        this.updateStatusBar();
+
+        // Register after layout is ready so existing files don't fire create events on vault load
+        this.plugin.app.workspace.onLayoutReady(() => {
+            this.plugin.registerEvent(
+                this.plugin.app.vault.on('create', (file) => this.onFileChanged(file))
+            );
+            this.plugin.registerEvent(
+                this.plugin.app.vault.on('modify', (file) => {
+                    // Only reset the debounce for files we're already waiting on
+                    if (this.pending.has(file.path)) {
+                        this.onFileChanged(file);
+                    }
+                })
+            );
+        });
+    }
+
+    stop() {
+        for (const { timer } of this.pending.values()) {
+            window.clearTimeout(timer);
+        }
+        this.pending.clear();
+        this.queue = [];
+        this.controller?.cancel();
+    }
+
+    private isWatched(file: TAbstractFile): file is TFile {
+        const settings = this.plugin.settings;
+        if (!settings.watchFolderEnabled || !settings.watchFolder.trim()) return false;
+        if (!(file instanceof TFile)) return false;
+        if (!isSupportedExtension(file.extension)) return false;
+
+        const watchFolder = normalizePath(settings.watchFolder);
+        return file.path.startsWith(watchFolder + '/');
+    }
+
+    private onFileChanged(file: TAbstractFile) {
+        if (!this.isWatched(file)) return;
+
+        const existing = this.pending.get(file.path);
+        if (existing) {
+            window.clearTimeout(existing.timer);
+        }
+
+        const timer = window.setTimeout(() => this.onDebounceElapsed(file.path), this.plugin.settings.watchDebounceMs);
+        this.pending.set(file.path, { timer, size: file.stat.size });
+        this.updateStatusBar();
+    }
+
+    private onDebounceElapsed(path: string) {
+        const entry = this.pending.get(path);
+        this.pending.delete(path);
+
+        const file = this.plugin.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile) || !this.isWatched(file)) {
+            this.updateStatusBar();
+            return;
+        }
+
+        // Size still changing means the sync client hasn't finished writing yet
+        if (entry && file.stat.size !== entry.size) {
+            this.onFileChanged(file);
+            return;
+        }
+
+        if (!this.queue.includes(file)) {
+            this.queue.push(file);
+        }
+        this.updateStatusBar();
+        this.drain();
+    }
+
+    private async drain() {
+        if (this.isDraining) return;
+        this.isDraining = true;
+
+        try {
+            while (this.queue.length > 0) {
+                const configError = getProviderConfigError(this.plugin.settings);
+                if (configError) {
+                    new Notice(`Handwrite OCR: inbox files are waiting. ${configError}`);
+                    this.queue = [];
+                    break;
+                }
+
+                const batch = this.queue.splice(0, this.queue.length);
+                this.waiting = batch.length;
+                this.updateStatusBar();
+
+                const processor = new FileProcessor(this.plugin.app, this.plugin.settings, this.plugin.ledger, this.plugin.usageLog, this.plugin.preprocessLog);
+                this.controller = new BatchController();
+                await processor.processBatch(
+                    batch,
+                    (progress) => {
+                        // Reported with a file name when a worker picks the file up
+                        if (progress.currentFile) {
+                            this.waiting--;
+                            this.running++;
+                            this.updateStatusBar();
+                        }
+                    },
+                    (file: TFile, result: ProcessingResult) => {
+                        if (result.notStarted) {
+                            this.waiting--;
+                        } else {
+                            this.running--;
+                        }
+                        this.updateStatusBar();
+                        if (result.skipped || result.cancelled) {
+                            return;
+                        } else if (result.success) {
+                            new Notice(`Handwrite OCR: ${file.name} → ${result.filePath}`);
+                        } else {
+                            new Notice(`Handwrite OCR: failed to process ${file.name}: ${result.error}`);
+                        }
+                    },
+                    { controller: this.controller, jobQueue: this.plugin.jobQueue }
+                );
+                this.controller = null;
+                this.waiting = 0;
+                this.running = 0;
+            }
+        } finally {
+            this.isDraining = false;
+            this.updateStatusBar();
+        }
+    }
+
+    private updateStatusBar() {
+        if (!this.statusBarEl) return;
+
+        const queued = this.queue.length + this.pending.size + this.waiting;
+        if (queued === 0 && this.running === 0) {
+            this.statusBarEl.empty();
+            this.statusBarEl.hide();
+            return;
+        }
+
+        const parts: string[] = [];
+        if (queued > 0) parts.push(`${queued} queued`);
+        if (this.running > 0) parts.push(`${this.running} running`);
+
+        this.statusBarEl.show();
+        this.statusBarEl.setText(`Handwrite: ${parts.join(', ')}`);
+    }
+}
@@ -0,0 +1,14 @@
+// Stand-ins for the parts of the Obsidian API used by the code under test
+import * as momentModule from 'moment';
+import { dump } from 'js-yaml';
+
+// moment is a CommonJS module, so depending on interop the function is the default export
+export const moment = ((momentModule as any).default ?? momentModule) as typeof momentModule;
+
+export function stringifyYaml(value: unknown): string {
+    return dump(value);
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateEngine, TemplateSyntaxError } from '../../src/template/engine';
+
+describe('TemplateEngine date format shorthand', () => {
+    const context = { date: '2025-03-12T10:20:00' };
+
+    it('formats dates with a bare format', () => {
+        expect(TemplateEngine.render('{{date | YYYY-MM}}', context)).toBe('2025-03');
+        expect(TemplateEngine.render('{{date | DD.MM.YYYY HH:mm}}', context)).toBe('12.03.2025 10:20');
+        expect(TemplateEngine.render('{{date | MMMM}}', context)).toBe('March');
+    });
+
+    it('rejects unknown filters made of format letters', () => {
+        for (const name of ['dash', 'Dash', 'Ash']) {
+            expect(() => TemplateEngine.render(`{{date | ${name}}}`, context)).toThrow(TemplateSyntaxError);
+        }
+    });
+});
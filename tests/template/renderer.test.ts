@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { load } from 'js-yaml';
+import { TemplateData, TemplateRenderer } from '../../src/template/renderer';
+
+const TRICKY_VALUES: Record<string, unknown> = {
+    colon: 'Meeting: Q3 review',
+    quotes: 'She said "hello" and \'bye\'',
+    hash: '#1 priority # not a comment',
+    checkbox: '- [ ] todo',
+    multiline: 'first line\nsecond: line\n  indented',
+    nested: { speaker: 'Jane: Doe', topics: ['a: b', '#c'], meta: { room: '"101"' } }
+};
+
+function templateData(customVariables: Record<string, unknown>): TemplateData {
+    return {
+        content: 'Body text',
+        tags: [],
+        filename: 'scan',
+        absoluteFilePath: 'Scans/scan.jpg',
+        relativeFilePath: 'Scans/scan.jpg',
+        markdownLink: '[[Scans/scan.jpg]]',
+        dateProcessed: '2025-03-12T10:20:00.000Z',
+        pageCount: 1,
+        modelUsed: 'test-model',
+        tokensUsed: 0,
+        customVariables
+    };
+}
+
+/**
+ * Renders a note whose frontmatter holds `lines`, and parses the frontmatter back.
+ */
+function renderFrontmatter(lines: string[], variables: Record<string, unknown>): Record<string, any> {
+    const note = TemplateRenderer.renderTemplate(`---\n${lines.join('\n')}\n---\n{{content}}`, templateData(variables));
+    const match = note.match(/^---\n([\s\S]*?)\n---\n/);
+    expect(match, note).not.toBeNull();
+    return load(match![1]) as Record<string, any>;
+}
+
+describe('TemplateRenderer.renderTemplate frontmatter', () => {
+    for (const [name, value] of Object.entries(TRICKY_VALUES)) {
+        describe(`with a value containing ${name}`, () => {
+            it('serializes a whole value', () => {
+                expect(renderFrontmatter(['value: {{value}}'], { value }).value).toEqual(value);
+            });
+
+            it('serializes a whole list item', () => {
+                expect(renderFrontmatter(['items:', '  - {{value}}'], { value }).items).toEqual([value]);
+            });
+        });
+    }
+
+    for (const [name, value] of Object.entries(TRICKY_VALUES)) {
+        if (typeof value !== 'string') continue;
+
+        describe(`with a string containing ${name}`, () => {
+            it('escapes a value inside double quotes', () => {
+                expect(renderFrontmatter(['title: "Notes - {{value}}"'], { value }).title).toBe(`Notes - ${value}`);
+            });
+
+            it('escapes a value inside single quotes', () => {
+                // Line breaks in single quotes fold into spaces
+                const expected = `Notes - ${value}`.replace(/\n\s*/g, ' ');
+                expect(renderFrontmatter(["title: 'Notes - {{value}}'"], { value }).title).toBe(expected);
+            });
+
+            it('quotes a value that is only part of a plain value', () => {
+                expect(renderFrontmatter(['summary: {{value}} notes'], { value }).summary).toBe(`${value} notes`);
+            });
+
+            it('quotes a list item that is only partly a value', () => {
+                expect(renderFrontmatter(['items:', '  - see {{value}}'], { value }).items).toEqual([`see ${value}`]);
+            });
+
+            it('quotes a value inside a flow sequence', () => {
+                expect(renderFrontmatter(['aliases: [{{value}}]'], { value }).aliases).toEqual([value]);
+            });
+        });
+    }
+
+    it('escapes the examples from the bug report', () => {
+        const frontmatter = renderFrontmatter([
+            'title: "Notes - {{title}}"',
+            'aliases: [{{title}}]',
+            'summary: {{course}} notes'
+        ], { title: 'Meeting: "Q3" #1', course: 'CS: 101' });
+
+        expect(frontmatter).toEqual({
+            title: 'Notes - Meeting: "Q3" #1',
+            aliases: ['Meeting: "Q3" #1'],
+            summary: 'CS: 101 notes'
+        });
+    });
+
+    it('writes lists as YAML lists, and spreads them inside flow sequences', () => {
+        const topics = ['plain', 'with: colon', '#hash', '- [ ] todo'];
+        expect(renderFrontmatter(['topics: {{topics}}', 'flow: [{{topics}}]'], { topics })).toEqual({ topics, flow: topics });
+    });
+
+    it('writes nested objects as mappings', () => {
+        const actionItems = [{ task: 'Email: Jane', done: false }, { task: '- [ ] follow up', owner: { name: 'Sam #2' } }];
+        expect(renderFrontmatter(['actions: {{actions}}'], { actions: actionItems }).actions).toEqual(actionItems);
+    });
+
+    it('keeps several values on one line together', () => {
+        const frontmatter = renderFrontmatter(['heading: {{course}} {{title}}'], { course: 'CS: 101', title: 'Week #3' });
+        expect(frontmatter.heading).toBe('CS: 101 Week #3');
+    });
+
+    it('indents multi-line values inside a block scalar', () => {
+        const frontmatter = renderFrontmatter(['notes: |', '  {{value}}'], { value: 'first: line\n- [ ] second' });
+        expect(frontmatter.notes).toBe('first: line\n- [ ] second\n');
+    });
+
+    it('leaves missing values empty', () => {
+        expect(renderFrontmatter(['author: {{author}}', 'title: "{{author}}"'], {})).toEqual({ author: null, title: '' });
+    });
+
+    it('does not escape values in the note body', () => {
+        const note = TemplateRenderer.renderTemplate('---\ntitle: {{title}}\n---\n# {{title}}', templateData({ title: 'A: "B" #1' }));
+        expect(note.endsWith('\n# A: "B" #1')).toBe(true);
+    });
+});
+
+describe('TemplateRenderer.generateFilename', () => {
+    it('replaces characters that are not allowed in names', () => {
+        expect(TemplateRenderer.generateFilename('{{date}} {{author}}.md', 'scan', { date: '12/03/2025', author: 'Smith: J' }))
+            .toBe('12-03-2025 Smith- J.md');
+    });
+
+    it('creates subfolders from slashes in the template', () => {
+        expect(TemplateRenderer.generateFilename('{{course}}/{{title}}.md', 'scan', { course: 'Math', title: 'Week 1' }))
+            .toBe('Math/Week 1.md');
+    });
+
+    it('falls back to the source name when the name is empty', () => {
+        expect(TemplateRenderer.generateFilename('{{course}}/{{title}}.md', 'scan', {})).toBe('scan.md');
+    });
+
+    it('shortens long names but keeps the extension', () => {
+        expect(TemplateRenderer.generateFilename('{{title}}.md', 'scan', { title: 'x'.repeat(50) }, 10)).toBe('xxxxxxxxxx.md');
+    });
+});
+
+describe('TemplateRenderer.cleanFilename', () => {
+    it('cleans names edited by hand and adds the extension', () => {
+        expect(TemplateRenderer.cleanFilename('Course/a: b', 'scan')).toBe('Course/a- b.md');
+    });
+
+    it('falls back on an empty name', () => {
+        expect(TemplateRenderer.cleanFilename('  ', 'scan')).toBe('scan.md');
+    });
+
+    it('replaces control characters', () => {
+        expect(TemplateRenderer.cleanFilename('line\none\ttwo', 'scan')).toBe('line-one-two.md');
+    });
+});
+
+describe('TemplateRenderer.renderFolder', () => {
+    it('renders variables and date formats', () => {
+        expect(TemplateRenderer.renderFolder('Courses/{{course}}/Scans/{{date | YYYY-MM}}', 'scan', { course: 'Bio', date: '2025-03-12' }, 'Unsorted'))
+            .toBe('Courses/Bio/Scans/2025-03');
+    });
+
+    it('uses the fallback folder when a value is missing', () => {
+        expect(TemplateRenderer.renderFolder('Courses/{{course}}/Notes', 'scan', {}, 'Unsorted')).toBe('Unsorted');
+    });
+});